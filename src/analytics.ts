@@ -0,0 +1,115 @@
+import type { UserStatus } from "./rotector";
+
+const HISTOGRAM_BUCKETS = 10;
+
+/** Counts per confidence range, keyed `"0.0-0.1"` through `"0.9-1.0"`. */
+export type ConfidenceHistogram = Record<string, number>;
+
+export interface RunAnalytics {
+	/** Users carrying each reason category. */
+	reasons: Record<string, number>;
+	confidence: {
+		/** Overall confidence of every status that reported one. */
+		overall: ConfidenceHistogram;
+		byReason: Record<string, ConfidenceHistogram>;
+	};
+	/** Flagged users split by whether a human reviewer signed off. */
+	review: { humanReviewed: number; aiOnly: number };
+	engineVersions: Record<string, number>;
+	versionCompatibility: Record<string, number>;
+}
+
+export function createAnalytics(): RunAnalytics {
+	return {
+		reasons: {},
+		confidence: { overall: createHistogram(), byReason: {} },
+		review: { humanReviewed: 0, aiOnly: 0 },
+		engineVersions: {},
+		versionCompatibility: {}
+	};
+}
+
+function bucketLabel(index: number): string {
+	return `${(index / HISTOGRAM_BUCKETS).toFixed(1)}-${(
+		(index + 1) /
+		HISTOGRAM_BUCKETS
+	).toFixed(1)}`;
+}
+
+function createHistogram(): ConfidenceHistogram {
+	const histogram: ConfidenceHistogram = {};
+	for (let i = 0; i < HISTOGRAM_BUCKETS; i++) histogram[bucketLabel(i)] = 0;
+	return histogram;
+}
+
+function addToHistogram(histogram: ConfidenceHistogram, confidence: number) {
+	const index = Math.min(
+		HISTOGRAM_BUCKETS - 1,
+		Math.max(0, Math.floor(confidence * HISTOGRAM_BUCKETS))
+	);
+	const label = bucketLabel(index);
+	histogram[label] = (histogram[label] ?? 0) + 1;
+}
+
+function increment(counts: Record<string, number>, key: string, by = 1) {
+	counts[key] = (counts[key] ?? 0) + by;
+}
+
+/** Fold one Rotector status into the analytics, mutating them in place. */
+export function recordStatus(analytics: RunAnalytics, status: UserStatus) {
+	if (typeof status.confidence === "number") {
+		addToHistogram(analytics.confidence.overall, status.confidence);
+	}
+
+	for (const [name, reason] of Object.entries(status.reasons ?? {})) {
+		increment(analytics.reasons, name);
+		if (typeof reason.confidence === "number") {
+			const histogram = (analytics.confidence.byReason[name] ??=
+				createHistogram());
+			addToHistogram(histogram, reason.confidence);
+		}
+	}
+
+	if (status.flagType !== 0) {
+		if (status.reviewer) analytics.review.humanReviewed++;
+		else analytics.review.aiOnly++;
+	}
+
+	increment(analytics.engineVersions, status.engineVersion ?? "unknown");
+	increment(
+		analytics.versionCompatibility,
+		status.versionCompatibility ?? "unknown"
+	);
+}
+
+function addCounts(
+	into: Record<string, number>,
+	from: Record<string, number>
+) {
+	for (const [key, count] of Object.entries(from)) increment(into, key, count);
+}
+
+/** Add up per-target analytics into run-level analytics. */
+export function mergeAnalytics(
+	list: (RunAnalytics | undefined)[]
+): RunAnalytics {
+	const total = createAnalytics();
+	for (const analytics of list) {
+		if (!analytics) continue;
+		addCounts(total.reasons, analytics.reasons);
+		addCounts(total.confidence.overall, analytics.confidence.overall);
+		for (const [name, histogram] of Object.entries(
+			analytics.confidence.byReason
+		)) {
+			addCounts(
+				(total.confidence.byReason[name] ??= createHistogram()),
+				histogram
+			);
+		}
+		total.review.humanReviewed += analytics.review.humanReviewed;
+		total.review.aiOnly += analytics.review.aiOnly;
+		addCounts(total.engineVersions, analytics.engineVersions);
+		addCounts(total.versionCompatibility, analytics.versionCompatibility);
+	}
+	return total;
+}
@@ -0,0 +1,221 @@
+import {
+	createWriteStream,
+	existsSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	statSync,
+	truncateSync,
+	writeFileSync
+} from "node:fs";
+import type { WriteStream } from "node:fs";
+import { once } from "node:events";
+import { join } from "node:path";
+import type { RunAnalytics } from "./analytics";
+
+export const CHECKPOINT_FILE = "checkpoint.json";
+export const RUN_STATE_FILE = "run.json";
+
+const CHECKPOINT_VERSION = 1;
+const CHECKPOINT_INTERVAL_MS = 15_000;
+
+/** Everything `processEntries` needs to carry on where it stopped. */
+export interface EntriesState {
+	seenIds: number[];
+	pendingLookup: number[];
+	totalCollected: number;
+	uniqueUsers: number;
+	newlyChecked: number;
+	cacheHits: number;
+	failedLookups?: number;
+	unsafeMatches: number;
+	flagBreakdown: Record<string, number>;
+	analytics?: RunAnalytics;
+}
+
+export interface TargetCheckpoint<Position> {
+	version: number;
+	label: string;
+	updatedAt: string;
+	position: Position | null;
+	entries: EntriesState | null;
+	/** Byte length of every output file at the time of the checkpoint. */
+	files: Record<string, number>;
+	extra: Record<string, unknown>;
+}
+
+export interface Checkpointer<Position> {
+	readonly resumed: TargetCheckpoint<Position> | null;
+	/** Open an append stream, cutting off anything written after the checkpoint. */
+	openWriter(name: string): WriteStream;
+	trackEntries(getState: () => EntriesState): void;
+	trackExtra(getExtra: () => Record<string, unknown>): void;
+	/** Record a stream position; writes to disk at most every 15 seconds. */
+	save(position: Position): Promise<void>;
+	/** Drop the checkpoint once the target has finished. */
+	complete(): void;
+	/**
+	 * Close every writer still open, e.g. after the scan stopped early, so no
+	 * buffered write lands after a resume has cut the files back.
+	 */
+	closeWriters(): Promise<void>;
+}
+
+interface TrackedWriter {
+	stream: WriteStream;
+	initialSize: number;
+}
+
+function writeJsonAtomic(path: string, payload: unknown) {
+	const tmpPath = `${path}.tmp`;
+	writeFileSync(tmpPath, JSON.stringify(payload, undefined, 2));
+	renameSync(tmpPath, path);
+}
+
+function flushWriter(stream: WriteStream): Promise<void> {
+	return new Promise((resolve, reject) => {
+		stream.write("", (err) => (err ? reject(err) : resolve()));
+	});
+}
+
+export function readTargetCheckpoint<Position>(
+	dirPath: string
+): TargetCheckpoint<Position> | null {
+	const path = join(dirPath, CHECKPOINT_FILE);
+	if (!existsSync(path)) return null;
+	const parsed = JSON.parse(
+		readFileSync(path, "utf8")
+	) as TargetCheckpoint<Position>;
+	if (parsed.version !== CHECKPOINT_VERSION)
+		throw new Error(
+			`Unsupported checkpoint version ${parsed.version} in ${path}`
+		);
+	return parsed;
+}
+
+/**
+ * Create the checkpointer for one target directory. When `resume` is set the
+ * previous checkpoint (if any) is loaded and exposed through `resumed`.
+ */
+export function createCheckpointer<Position>(
+	dirPath: string,
+	label: string,
+	resume: boolean
+): Checkpointer<Position> {
+	const path = join(dirPath, CHECKPOINT_FILE);
+	const resumed = resume ? readTargetCheckpoint<Position>(dirPath) : null;
+	const writers = new Map<string, TrackedWriter>();
+	let getEntries: (() => EntriesState) | null = null;
+	let getExtra: (() => Record<string, unknown>) | null = null;
+	let lastSavedAt = Date.now();
+
+	function openWriter(name: string): WriteStream {
+		const filePath = join(dirPath, name);
+		if (existsSync(filePath)) {
+			const savedSize = resumed?.files[name] ?? (resume ? 0 : undefined);
+			if (
+				savedSize !== undefined &&
+				statSync(filePath).size > savedSize
+			) {
+				truncateSync(filePath, savedSize);
+			}
+		}
+		const initialSize = existsSync(filePath) ? statSync(filePath).size : 0;
+		const stream = createWriteStream(filePath, { flags: "a" });
+		writers.set(name, { stream, initialSize });
+		return stream;
+	}
+
+	async function save(position: Position) {
+		const now = Date.now();
+		if (now - lastSavedAt < CHECKPOINT_INTERVAL_MS) return;
+		lastSavedAt = now;
+
+		const files: Record<string, number> = {};
+		for (const [name, writer] of writers) {
+			await flushWriter(writer.stream);
+			files[name] = writer.initialSize + writer.stream.bytesWritten;
+		}
+
+		const checkpoint: TargetCheckpoint<Position> = {
+			version: CHECKPOINT_VERSION,
+			label,
+			updatedAt: new Date(now).toISOString(),
+			position,
+			entries: getEntries?.() ?? null,
+			files,
+			extra: getExtra?.() ?? {}
+		};
+		writeJsonAtomic(path, checkpoint);
+	}
+
+	return {
+		resumed,
+		openWriter,
+		trackEntries: (fn) => {
+			getEntries = fn;
+		},
+		trackExtra: (fn) => {
+			getExtra = fn;
+		},
+		save,
+		complete: () => rmSync(path, { force: true }),
+		closeWriters: async () => {
+			await Promise.all(
+				[...writers.values()].map(({ stream }) => {
+					if (stream.closed) return;
+					if (!stream.writableEnded) stream.end();
+					return once(stream, "close");
+				})
+			);
+		}
+	};
+}
+
+/** Run-level bookkeeping so `--resume` knows what was requested and finished. */
+export interface RunState<Targets, Summary> {
+	version: number;
+	runId: string;
+	startedAt: string;
+	targets: Targets;
+	completed: Record<string, Summary>;
+}
+
+export function readRunState<Targets, Summary>(
+	runDir: string
+): RunState<Targets, Summary> {
+	const path = join(runDir, RUN_STATE_FILE);
+	if (!existsSync(path))
+		throw new Error(
+			`No ${RUN_STATE_FILE} found in ${runDir}; cannot resume`
+		);
+	const parsed = JSON.parse(readFileSync(path, "utf8")) as RunState<
+		Targets,
+		Summary
+	>;
+	if (parsed.version !== CHECKPOINT_VERSION)
+		throw new Error(
+			`Unsupported run state version ${parsed.version} in ${path}`
+		);
+	return parsed;
+}
+
+export function createRunState<Targets, Summary>(
+	runId: string,
+	targets: Targets
+): RunState<Targets, Summary> {
+	return {
+		version: CHECKPOINT_VERSION,
+		runId,
+		startedAt: new Date().toISOString(),
+		targets,
+		completed: {}
+	};
+}
+
+export function writeRunState<Targets, Summary>(
+	runDir: string,
+	state: RunState<Targets, Summary>
+) {
+	writeJsonAtomic(join(runDir, RUN_STATE_FILE), state);
+}
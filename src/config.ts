@@ -0,0 +1,519 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import process from "node:process";
+import type { RoleSelection } from "./groupsScraper";
+import { STDIN_PATH, type UserListConfig } from "./listSource";
+import { parseFlagTypes, type OutputFilter } from "./outputFilter";
+
+export interface GroupConfig {
+	id: string;
+	cap?: number;
+	roles?: RoleSelection;
+}
+
+export type CrawlExpandMode = "flagged" | "all";
+
+export interface CrawlConfig {
+	depth: number;
+	expand: CrawlExpandMode;
+	maxPerHop?: number;
+}
+
+export type OutputFormat = "ndjson" | "csv";
+
+/**
+ * Scan settings read from a config file, named like the matching CLI
+ * options. Anything left undefined falls back to the CLI defaults.
+ */
+export interface FileConfig {
+	outputDir?: string;
+	verbose?: boolean;
+	format?: OutputFormat;
+	friendIds?: string[];
+	groups?: GroupConfig[];
+	lists?: UserListConfig[];
+	followers?: string[];
+	followings?: string[];
+	crawl?: Partial<CrawlConfig>;
+	cacheEnabled?: boolean;
+	cacheFile?: string;
+	cacheMaxAgeMs?: number;
+	outputFilter?: Partial<OutputFilter>;
+	watchIntervalMs?: number;
+	webhookUrl?: string;
+	dbFile?: string;
+	concurrency?: number;
+	flaggedGroups?: boolean;
+	cookiesEnabled?: boolean;
+	cookieFile?: string;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000
+};
+
+/** Parse `90`, `30m`, `12h` or `7d` into milliseconds (bare numbers are seconds). */
+export function parseDuration(raw: string, flag: string): number {
+	const match = /^(\d+(?:\.\d+)?)([smhd]?)$/.exec(raw.trim());
+	if (!match) throw new Error(`Invalid duration for ${flag}: ${raw}`);
+	const value = Number(match[1]) * DURATION_UNITS_MS[match[2] || "s"]!;
+	if (value <= 0) throw new Error(`Invalid duration for ${flag}: ${raw}`);
+	return value;
+}
+
+/* ------------------------------------------------------------ */
+/*  VALIDATION HELPERS                                          */
+/* ------------------------------------------------------------ */
+
+type Table = Record<string, unknown>;
+
+const SETTING_KEYS = [
+	"output",
+	"verbose",
+	"format",
+	"crawl",
+	"cache",
+	"filter",
+	"watch",
+	"db",
+	"concurrency",
+	"flaggedGroups",
+	"cookies"
+];
+const GROUP_TARGET_KEYS = [
+	"group",
+	"cap",
+	"roles",
+	"exclude",
+	"minRank",
+	"maxRank",
+	"roleCaps"
+];
+
+function keyPath(parent: string, key: string): string {
+	return parent ? `${parent}.${key}` : key;
+}
+
+function invalid(key: string, expected: string): Error {
+	return new Error(`"${key}" must be ${expected}`);
+}
+
+function expectTable(value: unknown, key: string): Table {
+	if (typeof value !== "object" || value === null || Array.isArray(value))
+		throw invalid(key, "a table/object");
+	return value as Table;
+}
+
+function checkKeys(table: Table, allowed: string[], parent: string) {
+	for (const key of Object.keys(table)) {
+		if (!allowed.includes(key))
+			throw new Error(`Unknown key "${keyPath(parent, key)}"`);
+	}
+}
+
+function expectString(value: unknown, key: string): string {
+	if (typeof value !== "string" || !value.trim())
+		throw invalid(key, "a non-empty string");
+	return value;
+}
+
+function expectBoolean(value: unknown, key: string): boolean {
+	if (typeof value !== "boolean") throw invalid(key, "true or false");
+	return value;
+}
+
+function expectPositiveInt(value: unknown, key: string): number {
+	if (typeof value !== "number" || !Number.isInteger(value) || value <= 0)
+		throw invalid(key, "a positive integer");
+	return value;
+}
+
+function expectRank(value: unknown, key: string): number {
+	if (
+		typeof value !== "number" ||
+		!Number.isInteger(value) ||
+		value < 0 ||
+		value > 255
+	)
+		throw invalid(key, "a rank between 0 and 255");
+	return value;
+}
+
+function expectId(value: unknown, key: string): string {
+	const id = typeof value === "number" ? value.toString() : value;
+	if (typeof id !== "string" || !/^\d+$/.test(id))
+		throw invalid(key, "a numeric Roblox ID");
+	return id;
+}
+
+/** Arrays of strings or numbers, or one comma-separated string. */
+function expectList(value: unknown, key: string): string[] {
+	const items =
+		typeof value === "string"
+			? value.split(",")
+			: Array.isArray(value)
+			? value.map((item) => {
+					if (typeof item !== "string" && typeof item !== "number")
+						throw invalid(key, "a list of names or IDs");
+					return item.toString();
+			  })
+			: null;
+	if (!items) throw invalid(key, "a list of names or IDs");
+	const list = items.map((item) => item.trim()).filter(Boolean);
+	if (!list.length) throw invalid(key, "a non-empty list");
+	return list;
+}
+
+function expectDuration(value: unknown, key: string): number {
+	if (typeof value !== "string" && typeof value !== "number")
+		throw invalid(key, "a duration such as 90, 30m, 12h or 7d");
+	try {
+		return parseDuration(value.toString(), key);
+	} catch {
+		throw invalid(key, "a duration such as 90, 30m, 12h or 7d");
+	}
+}
+
+/* ------------------------------------------------------------ */
+/*  SECTIONS                                                    */
+/* ------------------------------------------------------------ */
+
+/** Fold the settings of one table (top level or a profile) into `config`. */
+function applySettings(
+	config: FileConfig,
+	table: Table,
+	parent: string,
+	baseDir: string
+) {
+	const key = (name: string) => keyPath(parent, name);
+
+	if (table.output !== undefined)
+		config.outputDir = resolve(
+			baseDir,
+			expectString(table.output, key("output"))
+		);
+	if (table.verbose !== undefined)
+		config.verbose = expectBoolean(table.verbose, key("verbose"));
+	if (table.format !== undefined) {
+		if (table.format !== "ndjson" && table.format !== "csv")
+			throw invalid(key("format"), `"ndjson" or "csv"`);
+		config.format = table.format;
+	}
+
+	if (table.db !== undefined)
+		config.dbFile = resolve(baseDir, expectString(table.db, key("db")));
+	if (table.flaggedGroups !== undefined)
+		config.flaggedGroups = expectBoolean(
+			table.flaggedGroups,
+			key("flaggedGroups")
+		);
+	if (table.concurrency !== undefined)
+		config.concurrency = expectPositiveInt(
+			table.concurrency,
+			key("concurrency")
+		);
+
+	if (table.cookies !== undefined) {
+		if (typeof table.cookies === "boolean") {
+			config.cookiesEnabled = table.cookies;
+		} else {
+			config.cookiesEnabled = true;
+			config.cookieFile = resolve(
+				baseDir,
+				expectString(table.cookies, key("cookies"))
+			);
+		}
+	}
+
+	if (table.crawl !== undefined) {
+		const crawl = expectTable(table.crawl, key("crawl"));
+		checkKeys(crawl, ["depth", "expand", "maxPerHop"], key("crawl"));
+		config.crawl = { ...config.crawl };
+		if (crawl.depth !== undefined)
+			config.crawl.depth = expectPositiveInt(
+				crawl.depth,
+				key("crawl.depth")
+			);
+		if (crawl.expand !== undefined) {
+			if (crawl.expand !== "flagged" && crawl.expand !== "all")
+				throw invalid(key("crawl.expand"), `"flagged" or "all"`);
+			config.crawl.expand = crawl.expand;
+		}
+		if (crawl.maxPerHop !== undefined)
+			config.crawl.maxPerHop = expectPositiveInt(
+				crawl.maxPerHop,
+				key("crawl.maxPerHop")
+			);
+	}
+
+	if (table.cache !== undefined) {
+		if (typeof table.cache === "boolean") {
+			config.cacheEnabled = table.cache;
+		} else {
+			const cache = expectTable(table.cache, key("cache"));
+			checkKeys(cache, ["enabled", "file", "maxAge"], key("cache"));
+			if (cache.enabled !== undefined)
+				config.cacheEnabled = expectBoolean(
+					cache.enabled,
+					key("cache.enabled")
+				);
+			if (cache.file !== undefined)
+				config.cacheFile = resolve(
+					baseDir,
+					expectString(cache.file, key("cache.file"))
+				);
+			if (cache.maxAge !== undefined)
+				config.cacheMaxAgeMs = expectDuration(
+					cache.maxAge,
+					key("cache.maxAge")
+				);
+		}
+	}
+
+	if (table.filter !== undefined) {
+		const filter = expectTable(table.filter, key("filter"));
+		checkKeys(
+			filter,
+			["onlyFlagged", "flagTypes", "minConfidence"],
+			key("filter")
+		);
+		config.outputFilter = { ...config.outputFilter };
+		if (filter.onlyFlagged !== undefined)
+			config.outputFilter.onlyFlagged = expectBoolean(
+				filter.onlyFlagged,
+				key("filter.onlyFlagged")
+			);
+		if (filter.flagTypes !== undefined) {
+			const list = expectList(filter.flagTypes, key("filter.flagTypes"));
+			try {
+				config.outputFilter.flagTypes = parseFlagTypes(list.join(","));
+			} catch (err) {
+				throw new Error(
+					`"${key("filter.flagTypes")}": ${(err as Error).message}`
+				);
+			}
+		}
+		if (filter.minConfidence !== undefined) {
+			const value = filter.minConfidence;
+			if (typeof value !== "number" || value < 0 || value > 1)
+				throw invalid(key("filter.minConfidence"), "a number from 0 to 1");
+			config.outputFilter.minConfidence = value;
+		}
+	}
+
+	if (table.watch !== undefined) {
+		const watch = expectTable(table.watch, key("watch"));
+		checkKeys(watch, ["interval", "webhook"], key("watch"));
+		if (watch.interval !== undefined)
+			config.watchIntervalMs = expectDuration(
+				watch.interval,
+				key("watch.interval")
+			);
+		if (watch.webhook !== undefined) {
+			const url = expectString(watch.webhook, key("watch.webhook"));
+			if (!/^https?:\/\//.test(url))
+				throw invalid(key("watch.webhook"), "an http(s) URL");
+			config.webhookUrl = url;
+		}
+	}
+}
+
+function parseGroupTarget(target: Table, parent: string): GroupConfig {
+	const key = (name: string) => keyPath(parent, name);
+	checkKeys(target, GROUP_TARGET_KEYS, parent);
+
+	const group: GroupConfig = { id: expectId(target.group, key("group")) };
+	if (target.cap !== undefined)
+		group.cap = expectPositiveInt(target.cap, key("cap"));
+
+	const roles: RoleSelection = {};
+	if (target.roles !== undefined)
+		roles.include = expectList(target.roles, key("roles"));
+	if (target.exclude !== undefined)
+		roles.exclude = expectList(target.exclude, key("exclude"));
+	if (target.minRank !== undefined)
+		roles.minRank = expectRank(target.minRank, key("minRank"));
+	if (target.maxRank !== undefined)
+		roles.maxRank = expectRank(target.maxRank, key("maxRank"));
+	if (target.roleCaps !== undefined) {
+		const caps = expectTable(target.roleCaps, key("roleCaps"));
+		roles.roleCaps = {};
+		for (const [role, cap] of Object.entries(caps)) {
+			roles.roleCaps[role] = expectPositiveInt(
+				cap,
+				key(`roleCaps.${role}`)
+			);
+		}
+	}
+	if (Object.keys(roles).length) group.roles = roles;
+	return group;
+}
+
+/**
+ * Named targets: each is `{ friend = <userId> }`, `{ followers = <userId> }`,
+ * `{ followings = <userId> }`, a group table, or
+ * `{ usersFile = <path>, column = <name> }`.
+ */
+function parseTargets(value: unknown): Map<string, Table> {
+	const targets = new Map<string, Table>();
+	for (const [name, raw] of Object.entries(expectTable(value, "targets"))) {
+		const target = expectTable(raw, `targets.${name}`);
+		const kinds = [
+			"friend",
+			"followers",
+			"followings",
+			"group",
+			"usersFile"
+		].filter((kind) => target[kind] !== undefined);
+		if (kinds.length !== 1)
+			throw new Error(
+				`"targets.${name}" must set exactly one of "friend", "followers", "followings", "group" or "usersFile"`
+			);
+		targets.set(name, target);
+	}
+	return targets;
+}
+
+function applyTargets(
+	config: FileConfig,
+	targets: Map<string, Table>,
+	names: string[],
+	baseDir: string
+) {
+	config.friendIds = [];
+	config.groups = [];
+	config.lists = [];
+	config.followers = [];
+	config.followings = [];
+	for (const name of names) {
+		const target = targets.get(name)!;
+		const parent = `targets.${name}`;
+		if (target.friend !== undefined) {
+			checkKeys(target, ["friend"], parent);
+			config.friendIds.push(
+				expectId(target.friend, keyPath(parent, "friend"))
+			);
+		} else if (
+			target.followers !== undefined ||
+			target.followings !== undefined
+		) {
+			const direction =
+				target.followers !== undefined ? "followers" : "followings";
+			checkKeys(target, [direction], parent);
+			config[direction]!.push(
+				expectId(target[direction], keyPath(parent, direction))
+			);
+		} else if (target.usersFile !== undefined) {
+			checkKeys(target, ["usersFile", "column"], parent);
+			if (!/^[A-Za-z0-9_-]+$/.test(name))
+				throw new Error(
+					`"${parent}" is a user list, so its name may only use letters, digits, "-" and "_"`
+				);
+			const path = expectString(
+				target.usersFile,
+				keyPath(parent, "usersFile")
+			);
+			config.lists.push({
+				name,
+				path: path === STDIN_PATH ? path : resolve(baseDir, path),
+				...(target.column !== undefined
+					? {
+							column: expectString(
+								target.column,
+								keyPath(parent, "column")
+							)
+					  }
+					: {})
+			});
+		} else {
+			config.groups.push(parseGroupTarget(target, parent));
+		}
+	}
+}
+
+/* ------------------------------------------------------------ */
+/*  LOADING                                                     */
+/* ------------------------------------------------------------ */
+
+function parseConfigText(path: string, text: string): unknown {
+	switch (extname(path).toLowerCase()) {
+		case ".json":
+			return JSON.parse(text);
+		case ".toml":
+			return Bun.TOML.parse(text);
+		default:
+			throw new Error("expected a .json or .toml file");
+	}
+}
+
+/**
+ * Read a JSON or TOML config file. Top-level settings apply first, then the
+ * selected profile's settings on top. Without a profile (or when the profile
+ * does not list `targets`) every named target is scanned. Relative paths are
+ * resolved against the config file's directory.
+ */
+export function loadConfigFile(path: string, profile?: string): FileConfig {
+	const absolute = resolve(process.cwd(), path);
+	if (!existsSync(absolute)) throw new Error(`Config file not found: ${path}`);
+
+	try {
+		const root = expectTable(
+			parseConfigText(absolute, readFileSync(absolute, "utf8")),
+			"(root)"
+		);
+		checkKeys(root, [...SETTING_KEYS, "targets", "profiles"], "");
+
+		const baseDir = dirname(absolute);
+		const config: FileConfig = {};
+		applySettings(config, root, "", baseDir);
+
+		const targets =
+			root.targets !== undefined
+				? parseTargets(root.targets)
+				: new Map<string, Table>();
+		let targetNames = [...targets.keys()];
+
+		if (profile !== undefined) {
+			const profiles =
+				root.profiles !== undefined
+					? expectTable(root.profiles, "profiles")
+					: {};
+			if (!(profile in profiles))
+				throw new Error(
+					`Unknown profile "${profile}"${
+						Object.keys(profiles).length
+							? ` (available: ${Object.keys(profiles).join(", ")})`
+							: ""
+					}`
+				);
+			const parent = `profiles.${profile}`;
+			const selected = expectTable(profiles[profile], parent);
+			checkKeys(selected, [...SETTING_KEYS, "targets"], parent);
+			applySettings(config, selected, parent, baseDir);
+
+			if (selected.targets !== undefined) {
+				targetNames = expectList(
+					selected.targets,
+					keyPath(parent, "targets")
+				);
+				for (const name of targetNames) {
+					if (!targets.has(name))
+						throw new Error(
+							`"${keyPath(
+								parent,
+								"targets"
+							)}" refers to unknown target "${name}"`
+						);
+				}
+			}
+		}
+
+		if (targets.size) applyTargets(config, targets, targetNames, baseDir);
+		return config;
+	} catch (err) {
+		throw new Error(`Invalid config ${path}: ${(err as Error).message}`);
+	}
+}
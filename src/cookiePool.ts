@@ -0,0 +1,120 @@
+import { readFileSync } from "node:fs";
+
+const COOKIE_PREFIX = ".ROBLOSECURITY=";
+
+export interface PooledCookie {
+	/** Names the cookie in logs and errors; the token itself is never shown. */
+	readonly label: string;
+	readonly token: string;
+	/** Set by a 429; other cookies are sent instead until then. */
+	limitedUntil: number;
+	/** Roblox rejected it, so it is never sent again. */
+	rejected: boolean;
+	/** The account it signs in as, once checked against Roblox. */
+	account: { userId: number; username: string } | null;
+}
+
+/**
+ * `undefined` until configured, in which case the COOKIE environment variable
+ * is used; `null` when cookies are turned off.
+ */
+let pool: PooledCookie[] | null | undefined;
+
+function createPool(tokens: string[], labelOf: (index: number) => string) {
+	return [...new Set(tokens)].map((token, index) => ({
+		label: labelOf(index),
+		token,
+		limitedUntil: 0,
+		rejected: false,
+		account: null
+	}));
+}
+
+function getPool(): PooledCookie[] | null {
+	if (pool === undefined) {
+		const token = process.env.COOKIE?.trim();
+		pool = createPool(token ? [token] : [], () => "the COOKIE token");
+	}
+	return pool;
+}
+
+/**
+ * Read a cookie file: one `.ROBLOSECURITY` token per line, with or without
+ * the `.ROBLOSECURITY=` prefix. Blank lines and `#` comments are skipped.
+ */
+export function readCookieFile(path: string): string[] {
+	const tokens = readFileSync(path, "utf8")
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line && !line.startsWith("#"))
+		.map((line) =>
+			line.startsWith(COOKIE_PREFIX)
+				? line.slice(COOKIE_PREFIX.length)
+				: line
+		);
+	if (!tokens.length) throw new Error(`No cookies found in ${path}`);
+	return tokens;
+}
+
+/** Send these tokens instead of the COOKIE environment variable. */
+export function useCookies(tokens: string[]) {
+	if (!tokens.length) throw new Error("useCookies needs at least one token");
+	pool = createPool(tokens, (index) => `cookie #${index + 1}`);
+}
+
+/** Send every request without a cookie; only public endpoints will work. */
+export function disableCookies() {
+	pool = null;
+}
+
+export function cookiesDisabled(): boolean {
+	return getPool() === null;
+}
+
+/** Cookies that have not been rejected, in pool order. */
+export function usableCookies(): PooledCookie[] {
+	return (getPool() ?? []).filter((cookie) => !cookie.rejected);
+}
+
+/**
+ * The cookie to send next: the first one that is not rate limited, or the
+ * one whose limit ends soonest. Null when no cookie is left.
+ */
+export function activeCookie(): PooledCookie | null {
+	const now = Date.now();
+	let soonest: PooledCookie | null = null;
+	for (const cookie of usableCookies()) {
+		if (cookie.limitedUntil <= now) return cookie;
+		if (!soonest || cookie.limitedUntil < soonest.limitedUntil)
+			soonest = cookie;
+	}
+	return soonest;
+}
+
+/**
+ * Keep `cookie` out of rotation until `until`. Returns the cookie to switch
+ * to, or null when every other one is rate limited too.
+ */
+export function markRateLimited(
+	cookie: PooledCookie,
+	until: number
+): PooledCookie | null {
+	cookie.limitedUntil = Math.max(cookie.limitedUntil, until);
+	const next = activeCookie();
+	return next && next.limitedUntil <= Date.now() ? next : null;
+}
+
+/** Drop `cookie` for good. Returns the cookie to switch to, if any is left. */
+export function markRejected(cookie: PooledCookie): PooledCookie | null {
+	cookie.rejected = true;
+	return activeCookie();
+}
+
+/** Replace any token that slipped into `text`, e.g. an upstream error message. */
+export function redactCookies(text: string): string {
+	let redacted = text;
+	for (const cookie of getPool() ?? []) {
+		redacted = redacted.split(cookie.token).join("[redacted]");
+	}
+	return redacted;
+}
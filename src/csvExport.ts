@@ -0,0 +1,242 @@
+import { createWriteStream, mkdirSync } from "node:fs";
+import type { WriteStream } from "node:fs";
+import { once } from "node:events";
+import { join, resolve } from "node:path";
+import process from "node:process";
+import type { Roleset } from "./groupsScraper";
+import {
+	loadRun,
+	readLatestStatuses,
+	readRoleMembers,
+	runIdOf,
+	type LoadedRun
+} from "./runFiles";
+import type { ScanSink } from "./scanner";
+
+export const USERS_CSV_FILE = "users.csv";
+export const REASONS_CSV_FILE = "reasons.csv";
+
+const USER_COLUMNS = [
+	"runId",
+	"sourceType",
+	"targetId",
+	"targetLabel",
+	"roleId",
+	"roleName",
+	"userId",
+	"username",
+	"displayName",
+	"flagType",
+	"flagLabel",
+	"confidence",
+	"reasons",
+	"topReasonConfidence",
+	"lastUpdated"
+];
+
+const REASON_COLUMNS = [
+	"runId",
+	"sourceType",
+	"targetId",
+	"targetLabel",
+	"userId",
+	"username",
+	"flagLabel",
+	"reason",
+	"reasonConfidence",
+	"message",
+	"evidenceIndex",
+	"evidence"
+];
+
+type CsvValue = string | number | null | undefined;
+
+export interface CsvExportOptions {
+	/** Also export users Rotector considers safe. */
+	includeSafe?: boolean;
+}
+
+export interface CsvSinkOptions extends CsvExportOptions {
+	onExported?(result: CsvExportResult): void;
+}
+
+export interface CsvExportResult {
+	usersFile: string;
+	reasonsFile: string;
+	userRows: number;
+	reasonRows: number;
+}
+
+/**
+ * Quote a CSV field when needed. Text starting with a formula character is
+ * prefixed with `'` so spreadsheets show it instead of evaluating it.
+ */
+function csvField(value: CsvValue): string {
+	if (value === null || value === undefined) return "";
+	let text = value.toString();
+	if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeCsvRow(stream: WriteStream, values: CsvValue[]) {
+	if (!stream.write(`${values.map(csvField).join(",")}\r\n`)) {
+		await once(stream, "drain");
+	}
+}
+
+async function closeCsv(stream: WriteStream) {
+	stream.end();
+	await once(stream, "close");
+}
+
+/**
+ * Flatten a run into two CSV files: one row per user per target, and a long
+ * format with one row per reason and evidence item.
+ */
+export async function exportRunCsv(
+	run: LoadedRun,
+	outDir: string,
+	options: CsvExportOptions = {}
+): Promise<CsvExportResult> {
+	mkdirSync(outDir, { recursive: true });
+	const usersFile = join(outDir, USERS_CSV_FILE);
+	const reasonsFile = join(outDir, REASONS_CSV_FILE);
+	const users = createWriteStream(usersFile);
+	const reasons = createWriteStream(reasonsFile);
+	const runId = runIdOf(run);
+	let userRows = 0;
+	let reasonRows = 0;
+
+	await writeCsvRow(users, USER_COLUMNS);
+	await writeCsvRow(reasons, REASON_COLUMNS);
+
+	for (const target of run.targets) {
+		const { type, targetId, label } = target.summary;
+		const roles: Map<number, Roleset> =
+			type === "group" ? readRoleMembers(target.dirPath) : new Map();
+
+		for (const [userId, record] of await readLatestStatuses(
+			target.dirPath
+		)) {
+			if (!options.includeSafe && record.user.flagType === 0) continue;
+			const status = record.user.status;
+			const reasonEntries = Object.entries(status.reasons ?? {});
+			const topReasonConfidence = reasonEntries.length
+				? Math.max(...reasonEntries.map(([, r]) => r.confidence ?? 0))
+				: null;
+			const role = roles.get(userId);
+
+			await writeCsvRow(users, [
+				runId,
+				type,
+				targetId,
+				label,
+				role?.id,
+				role?.name,
+				userId,
+				record.user.username,
+				record.user.displayName,
+				record.user.flagType,
+				record.user.flagLabel,
+				status.confidence,
+				reasonEntries.map(([name]) => name).join("; "),
+				topReasonConfidence,
+				status.lastUpdated
+					? new Date(status.lastUpdated * 1000).toISOString()
+					: null
+			]);
+			userRows++;
+
+			for (const [name, reason] of reasonEntries) {
+				const evidence = reason.evidence?.length
+					? reason.evidence
+					: [null];
+				for (const [index, item] of evidence.entries()) {
+					await writeCsvRow(reasons, [
+						runId,
+						type,
+						targetId,
+						label,
+						userId,
+						record.user.username,
+						record.user.flagLabel,
+						name,
+						reason.confidence,
+						reason.message,
+						item === null ? null : index,
+						item
+					]);
+					reasonRows++;
+				}
+			}
+		}
+	}
+
+	await closeCsv(users);
+	await closeCsv(reasons);
+	return { usersFile, reasonsFile, userRows, reasonRows };
+}
+
+/** Scan sink that writes the CSV files into the run folder once it finishes. */
+export function createCsvSink(options: CsvSinkOptions = {}): ScanSink {
+	return {
+		async handle(event) {
+			if (event.type !== "run_finished") return;
+			const result = await exportRunCsv(
+				loadRun(event.runDir),
+				event.runDir,
+				options
+			);
+			options.onExported?.(result);
+		}
+	};
+}
+
+function printExportHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts export <runDir> [options]\n\nWrites ${USERS_CSV_FILE} (one row per user per target) and ${REASONS_CSV_FILE} (one row per reason and evidence item) for a finished run.\n\nOptions:\n  -o, --output <dir>  Directory for the CSV files (default <runDir>)\n      --all           Include users Rotector considers safe\n  -h, --help          Show this help message`
+	);
+}
+
+export async function runExportCommand(argv: string[]): Promise<void> {
+	const inputs: string[] = [];
+	let outputDir: string | undefined;
+	let includeSafe = false;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printExportHelp();
+				return;
+			case "-o":
+			case "--output": {
+				outputDir = argv[++i];
+				if (!outputDir) throw new Error("Missing value for --output");
+				break;
+			}
+			case "--all":
+				includeSafe = true;
+				break;
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				inputs.push(arg);
+		}
+	}
+
+	if (inputs.length !== 1)
+		throw new Error("export expects exactly one run directory");
+
+	const run = loadRun(inputs[0]!);
+	const result = await exportRunCsv(
+		run,
+		outputDir ? resolve(process.cwd(), outputDir) : run.runDir,
+		{ includeSafe }
+	);
+
+	console.log(
+		`Wrote ${result.usersFile} (${result.userRows} row(s)) and ${result.reasonsFile} (${result.reasonRows} row(s))`
+	);
+}
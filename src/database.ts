@@ -0,0 +1,427 @@
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import process from "node:process";
+import {
+	readIdList,
+	readRoleMembers,
+	readRoles,
+	type RotectorRecord,
+	type SourceRunSummary
+} from "./runFiles";
+import type { ScanEvent, ScanSink, TargetRef } from "./scanner";
+
+const SCHEMA_VERSION = 1;
+
+// Statuses are stored once per target per run; reasons and evidence hang off
+// the status row and are replaced with it.
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS runs (
+	id TEXT PRIMARY KEY,
+	run_dir TEXT NOT NULL,
+	started_at TEXT NOT NULL,
+	finished_at TEXT,
+	output_filter TEXT
+);
+CREATE TABLE IF NOT EXISTS targets (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+	type TEXT NOT NULL,
+	target_id TEXT NOT NULL,
+	label TEXT NOT NULL,
+	total_users INTEGER,
+	unique_users INTEGER,
+	failed_lookups INTEGER,
+	finished_at TEXT,
+	UNIQUE (run_id, label)
+);
+CREATE TABLE IF NOT EXISTS roles (
+	group_id TEXT NOT NULL,
+	role_id INTEGER NOT NULL,
+	name TEXT NOT NULL,
+	rank INTEGER NOT NULL,
+	PRIMARY KEY (group_id, role_id)
+);
+CREATE TABLE IF NOT EXISTS users (
+	id INTEGER PRIMARY KEY,
+	username TEXT,
+	display_name TEXT
+);
+CREATE TABLE IF NOT EXISTS memberships (
+	target_pk INTEGER NOT NULL REFERENCES targets(id) ON DELETE CASCADE,
+	user_id INTEGER NOT NULL,
+	role_id INTEGER,
+	PRIMARY KEY (target_pk, user_id)
+);
+CREATE TABLE IF NOT EXISTS statuses (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	target_pk INTEGER NOT NULL REFERENCES targets(id) ON DELETE CASCADE,
+	user_id INTEGER NOT NULL,
+	flag_type INTEGER NOT NULL,
+	flag_label TEXT NOT NULL,
+	confidence REAL,
+	reviewer TEXT,
+	engine_version TEXT,
+	version_compatibility TEXT,
+	last_updated INTEGER,
+	recorded_at TEXT NOT NULL,
+	written INTEGER NOT NULL,
+	UNIQUE (target_pk, user_id)
+);
+CREATE INDEX IF NOT EXISTS statuses_user ON statuses (user_id);
+CREATE TABLE IF NOT EXISTS reasons (
+	status_id INTEGER NOT NULL REFERENCES statuses(id) ON DELETE CASCADE,
+	name TEXT NOT NULL,
+	message TEXT,
+	confidence REAL,
+	PRIMARY KEY (status_id, name)
+);
+CREATE TABLE IF NOT EXISTS evidence (
+	status_id INTEGER NOT NULL REFERENCES statuses(id) ON DELETE CASCADE,
+	reason TEXT NOT NULL,
+	position INTEGER NOT NULL,
+	text TEXT NOT NULL,
+	PRIMARY KEY (status_id, reason, position)
+);
+`;
+
+/** Open (or create) a scan database and make sure its tables exist. */
+export function openScanDatabase(path: string): Database {
+	mkdirSync(dirname(path), { recursive: true });
+	const db = new Database(path, { create: true });
+	db.exec("PRAGMA journal_mode = WAL");
+	db.exec("PRAGMA foreign_keys = ON");
+	const { user_version } = db
+		.query<{ user_version: number }, []>("PRAGMA user_version")
+		.get()!;
+	if (user_version > SCHEMA_VERSION)
+		throw new Error(
+			`${path} was written by a newer version (schema ${user_version})`
+		);
+	db.exec(SCHEMA);
+	db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+	return db;
+}
+
+/**
+ * Scan sink that mirrors a run into the database as it happens. Statuses are
+ * stored as they arrive, including those the output filter kept out of
+ * `rotector`; roles and memberships are read from the target folder once
+ * the target finishes. A resumed run updates the rows it already wrote.
+ */
+export function createDatabaseSink(db: Database): ScanSink {
+	const targetKeys = new Map<string, number>();
+	let runId = "";
+	let runDir = "";
+
+	const insertRun = db.query(
+		`INSERT INTO runs (id, run_dir, started_at) VALUES (?1, ?2, ?3)
+		 ON CONFLICT (id) DO UPDATE SET run_dir = excluded.run_dir`
+	);
+	const insertTarget = db.query(
+		`INSERT INTO targets (run_id, type, target_id, label) VALUES (?1, ?2, ?3, ?4)
+		 ON CONFLICT (run_id, label) DO NOTHING`
+	);
+	const selectTarget = db.query<{ id: number }, [string, string]>(
+		"SELECT id FROM targets WHERE run_id = ?1 AND label = ?2"
+	);
+	const upsertUser = db.query(
+		`INSERT INTO users (id, username, display_name) VALUES (?1, ?2, ?3)
+		 ON CONFLICT (id) DO UPDATE SET
+			username = coalesce(excluded.username, username),
+			display_name = coalesce(excluded.display_name, display_name)`
+	);
+	const deleteStatus = db.query(
+		"DELETE FROM statuses WHERE target_pk = ?1 AND user_id = ?2"
+	);
+	const insertStatus = db.query<
+		{ id: number },
+		[
+			number,
+			number,
+			number,
+			string,
+			number | null,
+			string | null,
+			string | null,
+			string | null,
+			number | null,
+			string,
+			number
+		]
+	>(
+		`INSERT INTO statuses (target_pk, user_id, flag_type, flag_label, confidence,
+			reviewer, engine_version, version_compatibility, last_updated, recorded_at, written)
+		 VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11) RETURNING id`
+	);
+	const insertReason = db.query(
+		"INSERT INTO reasons (status_id, name, message, confidence) VALUES (?1, ?2, ?3, ?4)"
+	);
+	const insertEvidence = db.query(
+		"INSERT INTO evidence (status_id, reason, position, text) VALUES (?1, ?2, ?3, ?4)"
+	);
+	const upsertRole = db.query(
+		`INSERT INTO roles (group_id, role_id, name, rank) VALUES (?1, ?2, ?3, ?4)
+		 ON CONFLICT (group_id, role_id) DO UPDATE SET name = excluded.name, rank = excluded.rank`
+	);
+	const upsertMembership = db.query(
+		`INSERT INTO memberships (target_pk, user_id, role_id) VALUES (?1, ?2, ?3)
+		 ON CONFLICT (target_pk, user_id) DO UPDATE SET role_id = excluded.role_id`
+	);
+	const finishTarget = db.query(
+		`UPDATE targets SET total_users = ?2, unique_users = ?3, failed_lookups = ?4,
+			finished_at = ?5 WHERE id = ?1`
+	);
+	const finishRun = db.query(
+		"UPDATE runs SET finished_at = ?2, output_filter = ?3 WHERE id = ?1"
+	);
+
+	function targetKey(target: TargetRef): number {
+		const cached = targetKeys.get(target.label);
+		if (cached !== undefined) return cached;
+		insertTarget.run(runId, target.type, target.targetId, target.label);
+		const id = selectTarget.get(runId, target.label)!.id;
+		targetKeys.set(target.label, id);
+		return id;
+	}
+
+	const storeStatus = db.transaction(
+		(target: TargetRef, record: RotectorRecord, written: boolean) => {
+			const { user } = record;
+			const status = user.status;
+			const pk = targetKey(target);
+			upsertUser.run(user.id, user.username, user.displayName);
+			deleteStatus.run(pk, user.id);
+			const { id } = insertStatus.get(
+				pk,
+				user.id,
+				user.flagType,
+				user.flagLabel,
+				status.confidence ?? null,
+				status.reviewer ? JSON.stringify(status.reviewer) : null,
+				status.engineVersion ?? null,
+				status.versionCompatibility ?? null,
+				status.lastUpdated ?? null,
+				record.generatedAt,
+				written ? 1 : 0
+			)!;
+			for (const [name, reason] of Object.entries(status.reasons ?? {})) {
+				insertReason.run(
+					id,
+					name,
+					reason.message ?? null,
+					reason.confidence ?? null
+				);
+				const evidence = reason.evidence ?? [];
+				for (const [position, text] of evidence.entries()) {
+					insertEvidence.run(id, name, position, text);
+				}
+			}
+		}
+	);
+
+	const storeMemberships = db.transaction(
+		(target: TargetRef, summary: SourceRunSummary) => {
+			const pk = targetKey(target);
+			const dirPath = dirname(join(runDir, summary.indexFile));
+			finishTarget.run(
+				pk,
+				summary.totalUsers,
+				summary.uniqueUsers,
+				summary.failedLookups,
+				new Date().toISOString()
+			);
+
+			if (target.type !== "group") {
+				for (const userId of readIdList(join(dirPath, "users"))) {
+					upsertMembership.run(pk, userId, null);
+				}
+				return;
+			}
+			for (const role of readRoles(dirPath)) {
+				upsertRole.run(target.targetId, role.id, role.name, role.rank);
+			}
+			for (const [userId, role] of readRoleMembers(dirPath)) {
+				upsertMembership.run(pk, userId, role.id);
+			}
+		}
+	);
+
+	return {
+		handle(event: ScanEvent) {
+			switch (event.type) {
+				case "run_started":
+					runId = event.runId;
+					runDir = event.runDir;
+					targetKeys.clear();
+					insertRun.run(runId, runDir, new Date().toISOString());
+					break;
+				case "target_started":
+					targetKey(event.target);
+					break;
+				case "user_status":
+					storeStatus(event.target, event.record, event.written);
+					break;
+				case "target_finished":
+					storeMemberships(event.target, event.summary);
+					break;
+				case "run_finished":
+					finishRun.run(
+						runId,
+						event.summary.generatedAt,
+						event.summary.outputFilter
+							? JSON.stringify(event.summary.outputFilter)
+							: null
+					);
+					break;
+			}
+		}
+	};
+}
+
+/* ------------------------------------------------------------ */
+/*  CANNED QUERIES                                              */
+/* ------------------------------------------------------------ */
+
+type Row = Record<string, string | number | null>;
+
+interface CannedQuery {
+	description: string;
+	sql: string;
+}
+
+// Statuses are compared in run order, so "changed" means between two
+// consecutive runs that both checked the user for the same target.
+const QUERIES: Record<string, CannedQuery> = {
+	runs: {
+		description: "Every stored run with its target and flagged-user counts",
+		sql: `SELECT r.id AS run, r.finished_at AS finished,
+			count(DISTINCT t.id) AS targets,
+			count(DISTINCT CASE WHEN s.flag_type != 0 THEN s.user_id END) AS flagged
+			FROM runs r
+			LEFT JOIN targets t ON t.run_id = r.id
+			LEFT JOIN statuses s ON s.target_pk = t.id
+			GROUP BY r.id ORDER BY r.started_at DESC LIMIT ?1`
+	},
+	"multi-target": {
+		description: "Flagged users present in more than one target",
+		sql: `SELECT s.user_id AS user, u.username,
+			count(DISTINCT t.label) AS targets,
+			group_concat(DISTINCT t.label) AS labels,
+			max(s.confidence) AS maxConfidence
+			FROM statuses s
+			JOIN targets t ON t.id = s.target_pk
+			LEFT JOIN users u ON u.id = s.user_id
+			WHERE s.flag_type != 0
+			GROUP BY s.user_id HAVING count(DISTINCT t.label) > 1
+			ORDER BY targets DESC, maxConfidence DESC LIMIT ?1`
+	},
+	"flag-changed": {
+		description: "Users whose flag changed between runs of the same target",
+		sql: `WITH ordered AS (
+				SELECT s.user_id, t.label, t.run_id, s.flag_label,
+					lag(s.flag_label) OVER w AS previous,
+					lag(t.run_id) OVER w AS previous_run
+				FROM statuses s
+				JOIN targets t ON t.id = s.target_pk
+				JOIN runs r ON r.id = t.run_id
+				WINDOW w AS (PARTITION BY s.user_id, t.label ORDER BY r.started_at)
+			)
+			SELECT o.user_id AS user, u.username, o.label AS target,
+				o.previous AS "from", o.flag_label AS "to",
+				o.previous_run AS fromRun, o.run_id AS toRun
+			FROM ordered o LEFT JOIN users u ON u.id = o.user_id
+			WHERE o.previous IS NOT NULL AND o.previous != o.flag_label
+			ORDER BY o.run_id DESC LIMIT ?1`
+	},
+	reasons: {
+		description: "How often each reason appears among flagged users",
+		sql: `SELECT re.name AS reason, count(DISTINCT s.user_id) AS users,
+			round(avg(re.confidence), 3) AS avgConfidence
+			FROM reasons re JOIN statuses s ON s.id = re.status_id
+			WHERE s.flag_type != 0
+			GROUP BY re.name ORDER BY users DESC LIMIT ?1`
+	}
+};
+
+function formatTable(rows: Row[]): string {
+	if (!rows.length) return "No rows.";
+	const columns = Object.keys(rows[0]!);
+	const cells = rows.map((row) =>
+		columns.map((column) => String(row[column] ?? ""))
+	);
+	const widths = columns.map((column, i) =>
+		Math.max(column.length, ...cells.map((line) => line[i]!.length))
+	);
+	const format = (values: string[]) =>
+		values
+			.map((value, i) => value.padEnd(widths[i]!))
+			.join("  ")
+			.trimEnd();
+	return [
+		format(columns),
+		format(widths.map((width) => "-".repeat(width))),
+		...cells.map(format)
+	].join("\n");
+}
+
+function printQueryHelp() {
+	const names = Object.entries(QUERIES)
+		.map(([name, query]) => `  ${name.padEnd(14)} ${query.description}`)
+		.join("\n");
+	console.log(
+		`Usage:\n  bun run src/index.ts query <db> <query> [options]\n\nRuns a canned query against a database written with --db.\n\nQueries:\n${names}\n\nOptions:\n      --limit <n>  Show at most n rows (default 100)\n      --json       Print the rows as JSON\n  -h, --help       Show this help message`
+	);
+}
+
+export async function runQueryCommand(argv: string[]): Promise<void> {
+	const inputs: string[] = [];
+	let limit = 100;
+	let json = false;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printQueryHelp();
+				return;
+			case "--limit": {
+				limit = Number(argv[++i]);
+				if (!Number.isInteger(limit) || limit < 1)
+					throw new Error("--limit must be a positive integer");
+				break;
+			}
+			case "--json":
+				json = true;
+				break;
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				inputs.push(arg);
+		}
+	}
+
+	if (inputs.length !== 2)
+		throw new Error("query expects a database file and a query name");
+	const [file, name] = inputs as [string, string];
+	const query = QUERIES[name];
+	if (!query)
+		throw new Error(
+			`Unknown query "${name}"; expected one of ${Object.keys(
+				QUERIES
+			).join(", ")}`
+		);
+	const path = resolve(process.cwd(), file);
+	if (!existsSync(path)) throw new Error(`No such database: ${file}`);
+
+	const db = new Database(path, { readonly: true });
+	try {
+		const rows = db.query<Row, [number]>(query.sql).all(limit);
+		console.log(
+			json ? JSON.stringify(rows, undefined, 2) : formatTable(rows)
+		);
+	} finally {
+		db.close();
+	}
+}
@@ -0,0 +1,237 @@
+import {
+	appendFileSync,
+	existsSync,
+	readFileSync,
+	writeFileSync
+} from "node:fs";
+import { dirname, join } from "node:path";
+import process from "node:process";
+import { createAnalytics, mergeAnalytics, recordStatus } from "./analytics";
+import { validateOptionalCookies } from "./httpClient";
+import {
+	checkLotsOfUsers,
+	flagTypeToString,
+	type UserStatus
+} from "./rotector";
+import {
+	createRotectorRecord,
+	loadRun,
+	type RotectorRecord,
+	readIdList,
+	readLatestStatuses,
+	runIdOf,
+	sumFlagBreakdowns,
+	type SourceRunSummary,
+	type TargetIndexFile
+} from "./runFiles";
+import { shouldWriteStatus } from "./outputFilter";
+import {
+	OVERLAP_FILE,
+	buildOverlap,
+	createProvenance,
+	recordOverlapStatus,
+	seedProvenance
+} from "./overlap";
+import { openStatusCache } from "./statusCache";
+import { resolveUserNames } from "./usersScraper";
+
+export const FAILED_FILE = "failed";
+
+export interface RetryTargetResult {
+	label: string;
+	retried: number;
+	resolved: number;
+	stillFailed: number;
+}
+
+export interface RetryOptions {
+	/** Receives every status recovered by the retry, e.g. to fill caches. */
+	onResolved?(statuses: Record<string, UserStatus>): void;
+	/** Receives each recovered record and whether it passed the filter. */
+	onRecord?(
+		source: SourceRunSummary,
+		record: RotectorRecord,
+		written: boolean
+	): Promise<void> | void;
+	log?(message: string): void;
+}
+
+/**
+ * Look up every ID listed in the targets' `failed` files again. Recovered
+ * statuses that pass the target's output filter are appended to `rotector`,
+ * the `failed` file is rewritten with
+ * whatever is still missing, and both `index.json` and the given summaries
+ * are updated in place.
+ */
+export async function retryFailedLookups(
+	runDir: string,
+	sources: SourceRunSummary[],
+	options: RetryOptions = {}
+): Promise<RetryTargetResult[]> {
+	const results: RetryTargetResult[] = [];
+
+	for (const source of sources) {
+		const indexPath = join(runDir, source.indexFile);
+		const targetDir = dirname(indexPath);
+		const failedPath = join(targetDir, FAILED_FILE);
+		const failedIds = [...new Set(readIdList(failedPath))];
+		if (!failedIds.length || !existsSync(indexPath)) continue;
+
+		options.log?.(
+			`[${source.label}] retrying ${failedIds.length} failed Rotector lookup(s)`
+		);
+
+		const index = JSON.parse(
+			readFileSync(indexPath, "utf8")
+		) as TargetIndexFile;
+		const outcome = await checkLotsOfUsers(failedIds);
+		options.onResolved?.(outcome.statuses);
+
+		const recovered = Object.values(outcome.statuses);
+		const names = await resolveUserNames(recovered.map((s) => s.id));
+		const written: RotectorRecord[] = [];
+		for (const status of recovered) {
+			const record = createRotectorRecord(
+				index.runId,
+				index.source,
+				status,
+				names.get(status.id)
+			);
+			const keep = shouldWriteStatus(index.outputFilter, status);
+			if (keep) written.push(record);
+			await options.onRecord?.(source, record, keep);
+		}
+		if (written.length) {
+			appendFileSync(
+				join(targetDir, "rotector"),
+				`${written.map((record) => JSON.stringify(record)).join("\n")}\n`
+			);
+		}
+
+		const analytics = index.analytics ?? createAnalytics();
+		for (const status of recovered) {
+			recordStatus(analytics, status);
+			const label = flagTypeToString(status.flagType);
+			index.flagBreakdown[label] = (index.flagBreakdown[label] ?? 0) + 1;
+			index.counts.uniqueMatched = (index.counts.uniqueMatched ?? 0) + 1;
+			if (status.flagType !== 0) {
+				index.counts.unsafeMatches =
+					(index.counts.unsafeMatches ?? 0) + 1;
+			}
+		}
+
+		const remaining = outcome.failedIds;
+		writeFileSync(
+			failedPath,
+			remaining.length ? `${remaining.join("\n")}\n` : ""
+		);
+		index.counts.failedLookups = remaining.length;
+		index.analytics = analytics;
+		writeFileSync(indexPath, JSON.stringify(index, undefined, 2));
+
+		source.flagBreakdown = index.flagBreakdown;
+		source.analytics = analytics;
+		source.failedLookups = remaining.length;
+
+		results.push({
+			label: source.label,
+			retried: failedIds.length,
+			resolved: recovered.length,
+			stillFailed: remaining.length
+		});
+	}
+
+	return results;
+}
+
+function printRetryHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts retry-failed <runDir> [options]\n\nLooks up the users listed in each target's failed file again and fills the gaps in rotector, index.json, summary.json and ${OVERLAP_FILE}. Recovered statuses are also stored in the status cache the run used.\n\nOptions:\n      --cookie-file <f>   Use the .ROBLOSECURITY tokens listed in this file instead of COOKIE\n      --no-cookie         Send no cookie\n  -h, --help              Show this help message`
+	);
+}
+
+export async function runRetryFailedCommand(argv: string[]): Promise<void> {
+	if (argv.includes("-h") || argv.includes("--help")) {
+		printRetryHelp();
+		return;
+	}
+	if (argv.length !== 1)
+		throw new Error("retry-failed expects exactly one run directory");
+
+	const run = loadRun(argv[0]!);
+	await validateOptionalCookies();
+
+	// Users that already had a status somewhere in the run, so a recovered
+	// user is only counted once in uniqueUsersMatched.
+	const matched = new Set<number>();
+	for (const target of run.targets) {
+		for (const userId of (await readLatestStatuses(target.dirPath)).keys())
+			matched.add(userId);
+	}
+
+	const cacheInfo = run.summary.cache;
+	const cache =
+		cacheInfo && existsSync(cacheInfo.file)
+			? openStatusCache(cacheInfo.file, cacheInfo.maxAgeMs)
+			: null;
+	const recoveredIds = new Set<number>();
+	const recoveredRecords: RotectorRecord[] = [];
+	const results = await retryFailedLookups(run.runDir, run.summary.sources, {
+		onResolved: (statuses) => {
+			cache?.setMany(statuses);
+			for (const status of Object.values(statuses))
+				recoveredIds.add(status.id);
+		},
+		onRecord: (_source, record) => {
+			recoveredRecords.push(record);
+		},
+		log: (message) => console.log(message)
+	});
+
+	// Rebuilt from the target folders, plus recovered users the output filter
+	// kept out of rotector, as the scan itself would have counted them.
+	const provenance = createProvenance();
+	for (const target of run.targets) {
+		await seedProvenance(provenance, target.summary.label, target.dirPath);
+	}
+	for (const record of recoveredRecords) {
+		recordOverlapStatus(provenance, record);
+	}
+	const overlap = buildOverlap(
+		provenance,
+		runIdOf(run),
+		run.summary.sources.map((s) => s.label)
+	);
+	writeFileSync(
+		join(run.runDir, OVERLAP_FILE),
+		JSON.stringify(overlap, undefined, 2)
+	);
+
+	const stats = run.summary.stats;
+	const newlyMatched = [...recoveredIds].filter((id) => !matched.has(id));
+	stats.uniqueUsersMatched =
+		(Number(stats.uniqueUsersMatched) || 0) + newlyMatched.length;
+	stats.flaggedInMultipleTargets = overlap.users.length;
+
+	run.summary.flagBreakdown = sumFlagBreakdowns(run.summary.sources);
+	run.summary.analytics = mergeAnalytics(
+		run.summary.sources.map((s) => s.analytics)
+	);
+	stats.failedLookups = run.summary.sources.reduce(
+		(acc, s) => acc + (s.failedLookups ?? 0),
+		0
+	);
+	writeFileSync(run.summaryPath, JSON.stringify(run.summary, undefined, 2));
+	cache?.compact();
+
+	if (!results.length) {
+		console.log("No failed lookups to retry.");
+		return;
+	}
+	for (const result of results) {
+		console.log(
+			`${result.label}: recovered ${result.resolved}/${result.retried}, ${result.stillFailed} still failing`
+		);
+	}
+	if (results.some((r) => r.stillFailed)) process.exitCode = 2;
+}
@@ -0,0 +1,290 @@
+import { writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import process from "node:process";
+import { getUserGroupRoles } from "./groupsScraper";
+import { validateOptionalCookies } from "./httpClient";
+import {
+	loadRun,
+	readLatestStatuses,
+	runIdOf,
+	type LoadedRun
+} from "./runFiles";
+import type { ScanSink } from "./scanner";
+
+export const FLAGGED_GROUPS_FILE = "groups-of-flagged.json";
+
+/** Membership lookups in flight at once; the HTTP client paces them further. */
+const LOOKUP_CONCURRENCY = 4;
+/** Roles at this rank or above count as ranked; 1 is the usual member role. */
+const RANKED_MIN_RANK = 2;
+const DEFAULT_MIN_FLAGGED = 2;
+const DEFAULT_TOP = 10;
+
+export interface FlaggedGroupRole {
+	id: number;
+	name: string;
+	rank: number;
+	flaggedMembers: number;
+}
+
+export interface FlaggedGroup {
+	groupId: number;
+	name: string;
+	memberCount: number;
+	flaggedMembers: number;
+	/** Flagged members whose role is ranked above the default member role. */
+	rankedFlaggedMembers: number;
+	/** `rankedFlaggedMembers` as a share of `flaggedMembers`, 0 to 1. */
+	rankedShare: number;
+	/** The run already scanned this group as a `--group` target. */
+	scanned: boolean;
+	roles: FlaggedGroupRole[];
+	userIds: number[];
+}
+
+export interface FlaggedGroupsFile {
+	runId: string;
+	generatedAt: string;
+	flaggedUsers: number;
+	/** Flagged users whose memberships could not be fetched. */
+	failedUserIds: number[];
+	/** Groups with at least this many flagged members are listed. */
+	minFlagged: number;
+	/** Most flagged members first, then the highest ranked share. */
+	groups: FlaggedGroup[];
+}
+
+export interface FlaggedGroupsOptions {
+	minFlagged?: number;
+	log?(message: string): void;
+}
+
+/** Flagged users of every target in a run, each counted once. */
+async function collectFlaggedUsers(run: LoadedRun): Promise<number[]> {
+	const flagged = new Set<number>();
+	for (const target of run.targets) {
+		const latest = await readLatestStatuses(target.dirPath);
+		for (const [userId, record] of latest) {
+			if (record.user.flagType !== 0) flagged.add(userId);
+		}
+	}
+	return [...flagged];
+}
+
+/**
+ * Fetch the group memberships of every flagged user in a run and rank the
+ * groups they share.
+ */
+export async function buildFlaggedGroups(
+	run: LoadedRun,
+	options: FlaggedGroupsOptions = {}
+): Promise<FlaggedGroupsFile> {
+	const minFlagged = options.minFlagged ?? DEFAULT_MIN_FLAGGED;
+	const userIds = await collectFlaggedUsers(run);
+	const scannedGroups = new Set(
+		run.summary.sources
+			.filter((source) => source.type === "group")
+			.map((source) => source.targetId)
+	);
+
+	const groups = new Map<number, FlaggedGroup>();
+	const failedUserIds: number[] = [];
+	let done = 0;
+
+	const lookup = async (userId: number) => {
+		try {
+			for (const membership of await getUserGroupRoles(userId)) {
+				let group = groups.get(membership.groupId);
+				if (!group) {
+					group = {
+						groupId: membership.groupId,
+						name: membership.groupName,
+						memberCount: membership.memberCount,
+						flaggedMembers: 0,
+						rankedFlaggedMembers: 0,
+						rankedShare: 0,
+						scanned: scannedGroups.has(
+							membership.groupId.toString()
+						),
+						roles: [],
+						userIds: []
+					};
+					groups.set(membership.groupId, group);
+				}
+				group.flaggedMembers++;
+				if (membership.role.rank >= RANKED_MIN_RANK)
+					group.rankedFlaggedMembers++;
+				group.userIds.push(userId);
+
+				let role = group.roles.find((r) => r.id === membership.role.id);
+				if (!role) {
+					role = { ...membership.role, flaggedMembers: 0 };
+					group.roles.push(role);
+				}
+				role.flaggedMembers++;
+			}
+		} catch (err) {
+			failedUserIds.push(userId);
+			options.log?.(
+				`[groups] could not fetch the groups of ${userId}: ${
+					(err as Error).message
+				}`
+			);
+		}
+		done++;
+		if (done % 50 === 0)
+			options.log?.(
+				`[groups] fetched memberships of ${done}/${userIds.length} flagged user(s)`
+			);
+	};
+
+	const queue = [...userIds];
+	await Promise.all(
+		Array.from({ length: LOOKUP_CONCURRENCY }, async () => {
+			for (let userId = queue.shift(); userId; userId = queue.shift()) {
+				await lookup(userId);
+			}
+		})
+	);
+
+	const ranked = [...groups.values()]
+		.filter((group) => group.flaggedMembers >= minFlagged)
+		.map((group) => ({
+			...group,
+			rankedShare: group.rankedFlaggedMembers / group.flaggedMembers,
+			roles: group.roles.sort((a, b) => b.rank - a.rank),
+			userIds: group.userIds.sort((a, b) => a - b)
+		}))
+		.sort(
+			(a, b) =>
+				b.flaggedMembers - a.flaggedMembers ||
+				b.rankedShare - a.rankedShare ||
+				a.groupId - b.groupId
+		);
+
+	return {
+		runId: runIdOf(run),
+		generatedAt: new Date().toISOString(),
+		flaggedUsers: userIds.length,
+		failedUserIds: failedUserIds.sort((a, b) => a - b),
+		minFlagged,
+		groups: ranked
+	};
+}
+
+/** Console summary of the top groups, ending with ready-made `--group` flags. */
+export function formatFlaggedGroups(
+	result: FlaggedGroupsFile,
+	top = DEFAULT_TOP
+): string {
+	if (!result.groups.length)
+		return `No group holds ${result.minFlagged} or more of the ${result.flaggedUsers} flagged user(s).`;
+
+	const lines = result.groups.slice(0, top).map((group) => {
+		const count = group.flaggedMembers.toString().padStart(5);
+		const ranked = Math.round(group.rankedShare * 100);
+		const scanned = group.scanned ? " [scanned]" : "";
+		return `${count} flagged (${ranked}% ranked)  group:${group.groupId} ${group.name}${scanned}`;
+	});
+	const unscanned = result.groups
+		.filter((group) => !group.scanned)
+		.slice(0, top);
+	if (unscanned.length) {
+		lines.push(
+			"",
+			`Scan them with: ${unscanned
+				.map((group) => `--group ${group.groupId}`)
+				.join(" ")}`
+		);
+	}
+	return lines.join("\n");
+}
+
+export interface FlaggedGroupsSinkOptions extends FlaggedGroupsOptions {
+	onWritten?(file: string, result: FlaggedGroupsFile): void;
+}
+
+/** Scan sink that writes {@link FLAGGED_GROUPS_FILE} once the run finishes. */
+export function createFlaggedGroupsSink(
+	options: FlaggedGroupsSinkOptions = {}
+): ScanSink {
+	return {
+		async handle(event) {
+			if (event.type !== "run_finished") return;
+			const result = await buildFlaggedGroups(
+				loadRun(event.runDir),
+				options
+			);
+			const file = join(event.runDir, FLAGGED_GROUPS_FILE);
+			writeFileSync(file, JSON.stringify(result, undefined, 2));
+			options.onWritten?.(file, result);
+		}
+	};
+}
+
+function printFlaggedGroupsHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts flagged-groups <runDir> [options]\n\nFetches the group memberships of every flagged user in a finished run and writes ${FLAGGED_GROUPS_FILE}, ranking the groups by how many flagged users they contain.\n\nOptions:\n  -o, --output <file>     Where to write the result (default <runDir>/${FLAGGED_GROUPS_FILE})\n      --min-flagged <n>   Only list groups with at least n flagged members (default ${DEFAULT_MIN_FLAGGED})\n      --top <n>           Number of groups printed to the console (default ${DEFAULT_TOP})\n      --cookie-file <f>   Use the .ROBLOSECURITY tokens listed in this file instead of COOKIE\n      --no-cookie         Send no cookie\n  -h, --help              Show this help message`
+	);
+}
+
+function parsePositiveInt(raw: string | undefined, flag: string): number {
+	if (!raw) throw new Error(`Missing value for ${flag}`);
+	const value = Number(raw);
+	if (!Number.isInteger(value) || value <= 0)
+		throw new Error(`Invalid value for ${flag}: ${raw}`);
+	return value;
+}
+
+export async function runFlaggedGroupsCommand(argv: string[]): Promise<void> {
+	const inputs: string[] = [];
+	let outputFile: string | undefined;
+	let minFlagged: number | undefined;
+	let top = DEFAULT_TOP;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printFlaggedGroupsHelp();
+				return;
+			case "-o":
+			case "--output": {
+				outputFile = argv[++i];
+				if (!outputFile) throw new Error("Missing value for --output");
+				break;
+			}
+			case "--min-flagged":
+				minFlagged = parsePositiveInt(argv[++i], arg);
+				break;
+			case "--top":
+				top = parsePositiveInt(argv[++i], arg);
+				break;
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				inputs.push(arg);
+		}
+	}
+
+	if (inputs.length !== 1)
+		throw new Error("flagged-groups expects exactly one run directory");
+
+	const run = loadRun(inputs[0]!);
+	await validateOptionalCookies();
+	const result = await buildFlaggedGroups(run, {
+		minFlagged,
+		log: (message) => console.log(message)
+	});
+	const target = outputFile
+		? resolve(process.cwd(), outputFile)
+		: join(run.runDir, FLAGGED_GROUPS_FILE);
+	writeFileSync(target, JSON.stringify(result, undefined, 2));
+
+	console.log(formatFlaggedGroups(result, top));
+	console.log(
+		`\nWrote ${target} (${result.groups.length} group(s) from ${result.flaggedUsers} flagged user(s))`
+	);
+	if (result.failedUserIds.length) process.exitCode = 2;
+}
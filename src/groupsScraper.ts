@@ -1,14 +1,4 @@
-const MAX_HTTP_RETRIES = 5;
-const BASE_RETRY_DELAY_MS = 1000;
-const MAX_RETRY_DELAY_MS = 30_000;
-
-function backoffMs(attempt: number) {
-	return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
-}
-
-function wait(ms: number) {
-	return new Promise((resolve) => setTimeout(resolve, ms));
-}
+import { requestJSON } from "./httpClient";
 
 type RolesetInfo = {
 	groupId: number;
@@ -25,6 +15,8 @@ export type Roleset = RolesetInfo["roles"][number];
 export interface GroupMemberEntry {
 	userId: number;
 	rolesetId: number;
+	username: string;
+	displayName: string;
 }
 
 type GroupMembersResponse = {
@@ -38,56 +30,8 @@ type GroupMembersResponse = {
 	}[];
 };
 
-async function fetchJSON(url: string) {
-	for (let attempt = 0; ; attempt++) {
-		let resp: Response;
-		try {
-			resp = await fetch(url, {
-				headers: {
-					Accept: "application/json",
-					"User-Agent":
-						"robloxHELL/1.0 (+https://ocbwoy3.dev, ocbwoy3@ocbwoy3.dev)",
-					Cookie: `.ROBLOSECURITY=${process.env.COOKIE}`
-				}
-			});
-		} catch (err) {
-			const retryAttempt = attempt + 1;
-			if (retryAttempt >= MAX_HTTP_RETRIES) {
-				throw new Error(
-					`Network error fetching ${url}: ${(err as Error).message}`
-				);
-			}
-			const waitMs = backoffMs(retryAttempt);
-			console.warn(
-				`Network error fetching ${url}, retrying in ${Math.round(
-					waitMs / 1000
-				)}s (attempt ${retryAttempt})`
-			);
-			await wait(waitMs);
-			continue;
-		}
-
-		if (resp.ok) return await resp.json();
-
-		const retryAttempt = attempt + 1;
-		const retryAfterHeader = Number(resp.headers.get("Retry-After"));
-		const waitMs =
-			resp.status === 429 && !Number.isNaN(retryAfterHeader)
-				? retryAfterHeader * 1000
-				: backoffMs(retryAttempt);
-
-		console.warn(
-			`HTTP ${resp.status} fetching ${url}, retrying in ${Math.round(
-				waitMs / 1000
-			)}s (attempt ${retryAttempt})`
-		);
-
-		if (retryAttempt >= MAX_HTTP_RETRIES) {
-			throw new Error(`HTTP ${resp.status} error fetching ${url}`);
-		}
-
-		await wait(waitMs);
-	}
+function fetchJSON(url: string) {
+	return requestJSON<unknown>({ url, auth: true, label: `fetching ${url}` });
 }
 
 export async function getGroupRoles(groupId: string): Promise<Roleset[]> {
@@ -96,11 +40,125 @@ export async function getGroupRoles(groupId: string): Promise<Roleset[]> {
 	return rolesets.roles.filter((r) => r.rank > 0);
 }
 
+type UserGroupRolesResponse = {
+	data: {
+		group: { id: number; name: string; memberCount: number };
+		role: { id: number; name: string; rank: number };
+	}[];
+};
+
+export interface UserGroupMembership {
+	groupId: number;
+	groupName: string;
+	memberCount: number;
+	role: Pick<Roleset, "id" | "name" | "rank">;
+}
+
+/** Every group a user belongs to, with their role in it. */
+export async function getUserGroupRoles(
+	userId: number
+): Promise<UserGroupMembership[]> {
+	const link = `https://groups.roblox.com/v2/users/${userId}/groups/roles`;
+	const response = (await fetchJSON(link)) as UserGroupRolesResponse;
+	return response.data.map(({ group, role }) => ({
+		groupId: group.id,
+		groupName: group.name,
+		memberCount: group.memberCount,
+		role: { id: role.id, name: role.name, rank: role.rank }
+	}));
+}
+
 export async function getRolesetIds(groupId: string): Promise<number[]> {
 	const roles = await getGroupRoles(groupId);
 	return roles.map((r) => r.id);
 }
 
+export interface RoleSelection {
+	/** Only scan these roles (IDs or case-insensitive names). */
+	include?: string[];
+	/** Never scan these roles (IDs or case-insensitive names). */
+	exclude?: string[];
+	minRank?: number;
+	maxRank?: number;
+	/** Member cap per role, keyed by role ID or name. */
+	roleCaps?: Record<string, number>;
+}
+
+export interface SkippedRoleset extends Roleset {
+	reason: string;
+}
+
+export interface RolesetSelection {
+	selected: Roleset[];
+	skipped: SkippedRoleset[];
+	/** Per-role caps resolved to role IDs. */
+	caps: Record<string, number>;
+	/** Selectors that did not match any role of the group. */
+	unmatched: string[];
+}
+
+function matchesRole(role: Roleset, selector: string): boolean {
+	return (
+		selector === role.id.toString() ||
+		selector.toLowerCase() === role.name.toLowerCase()
+	);
+}
+
+/** Apply a role selection to a group's rolesets, keeping API order. */
+export function selectRolesets(
+	roles: Roleset[],
+	selection: RoleSelection = {}
+): RolesetSelection {
+	const selected: Roleset[] = [];
+	const skipped: SkippedRoleset[] = [];
+	const caps: Record<string, number> = {};
+
+	for (const role of roles) {
+		let reason: string | null = null;
+		if (
+			selection.include?.length &&
+			!selection.include.some((s) => matchesRole(role, s))
+		) {
+			reason = "not included";
+		} else if (selection.exclude?.some((s) => matchesRole(role, s))) {
+			reason = "excluded";
+		} else if (
+			selection.minRank !== undefined &&
+			role.rank < selection.minRank
+		) {
+			reason = `rank below ${selection.minRank}`;
+		} else if (
+			selection.maxRank !== undefined &&
+			role.rank > selection.maxRank
+		) {
+			reason = `rank above ${selection.maxRank}`;
+		}
+
+		if (reason) {
+			skipped.push({ ...role, reason });
+			continue;
+		}
+
+		selected.push(role);
+		for (const [selector, cap] of Object.entries(
+			selection.roleCaps ?? {}
+		)) {
+			if (matchesRole(role, selector)) caps[role.id.toString()] = cap;
+		}
+	}
+
+	const selectors = [
+		...(selection.include ?? []),
+		...(selection.exclude ?? []),
+		...Object.keys(selection.roleCaps ?? {})
+	];
+	const unmatched = selectors.filter(
+		(selector) => !roles.some((role) => matchesRole(role, selector))
+	);
+
+	return { selected, skipped, caps, unmatched };
+}
+
 function generateURL(
 	groupId: string,
 	rolesetId: string,
@@ -110,18 +168,43 @@ function generateURL(
 	return cursor ? `${base}&cursor=${cursor}` : base;
 }
 
+export interface GroupStreamPosition {
+	rolesetId: number;
+	cursor: string | null;
+	delivered: number;
+	/** Members already delivered from the current roleset. */
+	roleDelivered?: number;
+}
+
+export interface GroupStreamOptions {
+	/** Member cap per roleset, keyed by roleset ID. */
+	roleCaps?: Record<string, number>;
+	/** Continue from a saved position instead of the first roleset. */
+	resumeFrom?: GroupStreamPosition | null;
+	/** Called before each page is fetched, once every earlier entry was consumed. */
+	onPage?(position: GroupStreamPosition): Promise<void> | void;
+}
+
 async function* streamRolesetMembers(
 	groupId: string,
-	rolesetId: number
+	rolesetId: number,
+	startCursor: string | null = null,
+	onPage?: (cursor: string | null) => Promise<void> | void
 ): AsyncGenerator<GroupMemberEntry> {
-	let cursor: string | null = null;
+	let cursor: string | null = startCursor;
 
 	while (true) {
+		await onPage?.(cursor);
 		const url = generateURL(groupId, `${rolesetId}`, cursor);
 		const data = (await fetchJSON(url)) as GroupMembersResponse;
 
 		for (const entry of data.data) {
-			yield { userId: entry.userId, rolesetId };
+			yield {
+				userId: entry.userId,
+				rolesetId,
+				username: entry.username,
+				displayName: entry.displayName
+			};
 		}
 
 		if (!data.nextPageCursor) break;
@@ -132,19 +215,52 @@ async function* streamRolesetMembers(
 export async function* streamGroupMembers(
 	groupId: string,
 	max?: number,
-	rolesets?: Roleset[]
+	rolesets?: Roleset[],
+	options: GroupStreamOptions = {}
 ): AsyncGenerator<GroupMemberEntry> {
 	const roleList = rolesets ?? (await getGroupRoles(groupId));
-	let delivered = 0;
+	const resumeFrom = options.resumeFrom;
+	let delivered = resumeFrom?.delivered ?? 0;
+	let startIndex = 0;
+
+	if (resumeFrom) {
+		startIndex = roleList.findIndex((r) => r.id === resumeFrom.rolesetId);
+		if (startIndex === -1)
+			throw new Error(
+				`Cannot resume group ${groupId}: roleset ${resumeFrom.rolesetId} no longer exists`
+			);
+	}
 
-	for (const roleset of roleList) {
-		for await (const member of streamRolesetMembers(groupId, roleset.id)) {
+	if (max && delivered >= max) return;
+
+	for (const roleset of roleList.slice(startIndex)) {
+		const resuming = resumeFrom?.rolesetId === roleset.id;
+		const startCursor = resuming ? resumeFrom.cursor : null;
+		const roleCap = options.roleCaps?.[roleset.id.toString()];
+		let roleDelivered = resuming ? resumeFrom.roleDelivered ?? 0 : 0;
+		if (roleCap && roleDelivered >= roleCap) continue;
+
+		const members = streamRolesetMembers(
+			groupId,
+			roleset.id,
+			startCursor,
+			(cursor) =>
+				options.onPage?.({
+					rolesetId: roleset.id,
+					cursor,
+					delivered,
+					roleDelivered
+				})
+		);
+		for await (const member of members) {
 			yield member;
 			delivered++;
+			roleDelivered++;
 
 			if (max && delivered >= max) {
 				return;
 			}
+			if (roleCap && roleDelivered >= roleCap) break;
 		}
 	}
 }
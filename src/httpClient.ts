@@ -0,0 +1,403 @@
+import { sleep } from "bun";
+import {
+	activeCookie,
+	markRateLimited,
+	markRejected,
+	redactCookies,
+	usableCookies
+} from "./cookiePool";
+
+const USER_AGENT = "robloxHELL/1.0 (+https://ocbwoy3.dev, ocbwoy3@ocbwoy3.dev)";
+
+const MAX_HTTP_RETRIES = 5;
+/** 429s only pause the host; this caps how often one request waits on them. */
+const MAX_THROTTLED_RETRIES = 20;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+/** Pause used when a 429 has no usable Retry-After header. */
+const DEFAULT_RETRY_AFTER_MS = 10_000;
+const RETRY_AFTER_MARGIN_MS = 500;
+const DEFAULT_TIMEOUT_MS = 30_000;
+const AUTHENTICATED_USER_URL =
+	"https://users.roblox.com/v1/users/authenticated";
+
+interface BucketConfig {
+	/** Tokens added per second, i.e. the sustained request rate. */
+	ratePerSecond: number;
+	/** Tokens a quiet host can save up for a burst. */
+	burst: number;
+}
+
+const DEFAULT_BUCKET: BucketConfig = { ratePerSecond: 10, burst: 10 };
+
+const HOST_BUCKETS: Record<string, BucketConfig> = {
+	"roscoe.rotector.com": { ratePerSecond: 5, burst: 5 }
+};
+
+export interface HostStats {
+	requests: number;
+	retries: number;
+	/** Responses with status 429. */
+	throttled: number;
+	timeouts: number;
+	/** Requests that gave up after every retry. */
+	failures: number;
+}
+
+/** Counters per host name. */
+export type HttpStats = Record<string, HostStats>;
+
+interface HostState {
+	config: BucketConfig;
+	tokens: number;
+	refilledAt: number;
+	/** Set by a 429; nothing is sent to the host before then. */
+	pausedUntil: number;
+	/** Callers take tokens in the order they asked. */
+	queue: Promise<void>;
+	stats: HostStats;
+}
+
+const hosts = new Map<string, HostState>();
+
+export type HttpWarningHandler = (message: string) => void;
+
+let warningHandler: HttpWarningHandler = (message) => console.warn(message);
+
+/**
+ * Send retry, pause and cookie warnings to `handler` instead of stderr, e.g.
+ * as a scan's `log` events. Returns a function restoring the previous one.
+ */
+export function setHttpWarningHandler(handler: HttpWarningHandler): () => void {
+	const previous = warningHandler;
+	warningHandler = handler;
+	return () => {
+		warningHandler = previous;
+	};
+}
+
+/** Report a warning through the handler set by {@link setHttpWarningHandler}. */
+export function warnHttp(message: string) {
+	warningHandler(message);
+}
+
+function getHost(name: string): HostState {
+	let host = hosts.get(name);
+	if (!host) {
+		const config = HOST_BUCKETS[name] ?? DEFAULT_BUCKET;
+		host = {
+			config,
+			tokens: config.burst,
+			refilledAt: Date.now(),
+			pausedUntil: 0,
+			queue: Promise.resolve(),
+			stats: {
+				requests: 0,
+				retries: 0,
+				throttled: 0,
+				timeouts: 0,
+				failures: 0
+			}
+		};
+		hosts.set(name, host);
+	}
+	return host;
+}
+
+function takeToken(host: HostState): Promise<void> {
+	const turn = host.queue.then(async () => {
+		for (;;) {
+			const now = Date.now();
+			if (host.pausedUntil > now) {
+				await sleep(host.pausedUntil - now);
+				continue;
+			}
+			const { ratePerSecond, burst } = host.config;
+			host.tokens = Math.min(
+				burst,
+				host.tokens + ((now - host.refilledAt) / 1000) * ratePerSecond
+			);
+			host.refilledAt = now;
+			if (host.tokens >= 1) {
+				host.tokens--;
+				return;
+			}
+			await sleep(Math.ceil(((1 - host.tokens) * 1000) / ratePerSecond));
+		}
+	});
+	host.queue = turn;
+	return turn;
+}
+
+/** Exponential backoff with jitter, so parallel retries spread out. */
+function backoffMs(attempt: number): number {
+	const ceiling = Math.min(
+		MAX_RETRY_DELAY_MS,
+		BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)
+	);
+	return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | null {
+	if (!header) return null;
+	const seconds = Number(header);
+	if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function pauseHost(host: HostState, name: string, waitMs: number) {
+	const until = Date.now() + waitMs;
+	if (until <= host.pausedUntil) return;
+	if (host.pausedUntil <= Date.now()) {
+		warnHttp(
+			`${name}: rate limited, pausing requests for ${Math.round(
+				waitMs / 1000
+			)}s`
+		);
+	}
+	host.pausedUntil = until;
+}
+
+export interface HttpRequest {
+	url: string;
+	method?: "GET" | "POST";
+	/** Sent as JSON. */
+	body?: unknown;
+	/**
+	 * Send a `.ROBLOSECURITY` cookie from the cookie pool, switching to the
+	 * next one when it is rate limited or rejected.
+	 */
+	auth?: boolean;
+	/** What the request does, for warnings and errors, e.g. `fetching friends of 1`. */
+	label: string;
+	timeoutMs?: number;
+}
+
+/**
+ * Fetch JSON through the host's token bucket. Network errors, timeouts and
+ * error statuses are retried with backoff; a 429 pauses every request to the
+ * host for its `Retry-After`, unless another cookie can take over.
+ */
+export async function requestJSON<T>(request: HttpRequest): Promise<T> {
+	const hostName = new URL(request.url).hostname;
+	const host = getHost(hostName);
+	const headers: Record<string, string> = {
+		Accept: "application/json",
+		"User-Agent": USER_AGENT
+	};
+	if (request.body !== undefined) headers["Content-Type"] = "application/json";
+
+	let failures = 0;
+	let throttles = 0;
+	for (;;) {
+		await takeToken(host);
+		host.stats.requests++;
+
+		const cookie = request.auth ? activeCookie() : null;
+		if (cookie) headers.Cookie = `.ROBLOSECURITY=${cookie.token}`;
+		else delete headers.Cookie;
+
+		let resp: Response;
+		try {
+			resp = await fetch(request.url, {
+				method: request.method ?? "GET",
+				headers,
+				body:
+					request.body === undefined
+						? undefined
+						: JSON.stringify(request.body),
+				signal: AbortSignal.timeout(
+					request.timeoutMs ?? DEFAULT_TIMEOUT_MS
+				)
+			});
+		} catch (err) {
+			const timedOut = (err as Error).name === "TimeoutError";
+			if (timedOut) host.stats.timeouts++;
+			const reason = timedOut ? "Timed out" : "Network error";
+			failures++;
+			if (failures >= MAX_HTTP_RETRIES) {
+				host.stats.failures++;
+				throw new Error(
+					`${reason} ${request.label}: ${redactCookies(
+						(err as Error).message
+					)}`
+				);
+			}
+			const waitMs = backoffMs(failures);
+			warnHttp(
+				`${reason} ${request.label}, retrying in ${Math.round(
+					waitMs / 1000
+				)}s (attempt ${failures})`
+			);
+			host.stats.retries++;
+			await sleep(waitMs);
+			continue;
+		}
+
+		if (resp.ok) return (await resp.json()) as T;
+
+		if (resp.status === 429) {
+			host.stats.throttled++;
+			throttles++;
+			if (throttles > MAX_THROTTLED_RETRIES) {
+				host.stats.failures++;
+				throw new Error(`HTTP 429 error ${request.label}`);
+			}
+			const waitMs =
+				(parseRetryAfter(resp.headers.get("Retry-After")) ??
+					DEFAULT_RETRY_AFTER_MS) + RETRY_AFTER_MARGIN_MS;
+			const next = cookie
+				? markRateLimited(cookie, Date.now() + waitMs)
+				: null;
+			if (next) {
+				warnHttp(
+					`${hostName}: ${cookie!.label} is rate limited, switching to ${next.label}`
+				);
+			} else {
+				pauseHost(host, hostName, waitMs);
+			}
+			host.stats.retries++;
+			continue;
+		}
+
+		if (resp.status === 401 && cookie) {
+			const next = markRejected(cookie);
+			if (!next) {
+				host.stats.failures++;
+				throw new Error(
+					`HTTP 401 error ${request.label}: every .ROBLOSECURITY cookie was rejected; they have expired or were invalidated`
+				);
+			}
+			warnHttp(
+				`${cookie.label} was rejected ${request.label} (expired or invalidated), switching to ${next.label}`
+			);
+			host.stats.retries++;
+			continue;
+		}
+
+		failures++;
+		if (failures >= MAX_HTTP_RETRIES) {
+			host.stats.failures++;
+			throw new Error(`HTTP ${resp.status} error ${request.label}`);
+		}
+		const waitMs = backoffMs(failures);
+		warnHttp(
+			`HTTP ${resp.status} ${request.label}, retrying in ${Math.round(
+				waitMs / 1000
+			)}s (attempt ${failures})`
+		);
+		host.stats.retries++;
+		await sleep(waitMs);
+	}
+}
+
+export interface CookieAccount {
+	/** The pool's label for the cookie, never the token. */
+	label: string;
+	userId: number;
+	username: string;
+}
+
+/**
+ * Check the pool's cookies against Roblox's authenticated user endpoint,
+ * each only once. Rejected cookies are dropped with a warning, or this
+ * throws if none is left. Returns the account of every usable cookie.
+ */
+export async function validateCookies(): Promise<CookieAccount[]> {
+	const cookies = usableCookies();
+	if (!cookies.length)
+		throw new Error(
+			"No .ROBLOSECURITY cookie configured: set the COOKIE environment variable or load a cookie file (group and list targets also work with cookies turned off)"
+		);
+
+	const host = getHost(new URL(AUTHENTICATED_USER_URL).hostname);
+	const rejected: string[] = [];
+	for (const cookie of cookies) {
+		if (cookie.account) continue;
+		await takeToken(host);
+		host.stats.requests++;
+		let resp: Response;
+		try {
+			resp = await fetch(AUTHENTICATED_USER_URL, {
+				headers: {
+					Accept: "application/json",
+					"User-Agent": USER_AGENT,
+					Cookie: `.ROBLOSECURITY=${cookie.token}`
+				},
+				signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
+			});
+		} catch (err) {
+			host.stats.failures++;
+			throw new Error(
+				`Could not check ${cookie.label}: ${redactCookies(
+					(err as Error).message
+				)}`
+			);
+		}
+
+		if (resp.status === 401) {
+			cookie.rejected = true;
+			rejected.push(cookie.label);
+			continue;
+		}
+		if (!resp.ok) {
+			host.stats.failures++;
+			throw new Error(
+				`HTTP ${resp.status} error checking ${cookie.label}`
+			);
+		}
+		const user = (await resp.json()) as { id: number; name: string };
+		cookie.account = { userId: user.id, username: user.name };
+	}
+
+	const usable = usableCookies();
+	if (!usable.length)
+		throw new Error(
+			cookies.length === 1
+				? `Roblox rejected ${cookies[0]!.label}: the .ROBLOSECURITY token has expired or was invalidated. Log in again and copy a fresh one.`
+				: `Roblox rejected all ${cookies.length} .ROBLOSECURITY cookies: they have expired or were invalidated. Log in again and copy fresh ones.`
+		);
+	for (const label of rejected) {
+		warnHttp(
+			`Roblox rejected ${label} (expired or invalidated); it is left out of the pool`
+		);
+	}
+	return usable.map((cookie) => ({
+		label: cookie.label,
+		...cookie.account!
+	}));
+}
+
+/**
+ * {@link validateCookies} for commands that only need public endpoints:
+ * with no cookie configured, or cookies turned off, requests simply go out
+ * without one.
+ */
+export async function validateOptionalCookies(): Promise<CookieAccount[]> {
+	return usableCookies().length ? validateCookies() : [];
+}
+
+/** A copy of the counters of every host contacted so far. */
+export function getHttpStats(): HttpStats {
+	const stats: HttpStats = {};
+	for (const [name, host] of hosts) stats[name] = { ...host.stats };
+	return stats;
+}
+
+/** What was counted between two `getHttpStats` snapshots. */
+export function diffHttpStats(after: HttpStats, before: HttpStats): HttpStats {
+	const diff: HttpStats = {};
+	for (const [name, stats] of Object.entries(after)) {
+		const start = before[name];
+		const delta = { ...stats };
+		if (start) {
+			for (const key of Object.keys(delta) as (keyof HostStats)[]) {
+				delta[key] -= start[key];
+			}
+		}
+		if (delta.requests) diff[name] = delta;
+	}
+	return diff;
+}
@@ -1,117 +1,170 @@
-import { createWriteStream, mkdirSync, writeFileSync } from "node:fs";
-import type { WriteStream } from "node:fs";
-import { once } from "node:events";
-import { join, resolve } from "node:path";
+import { mkdirSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
 import process from "node:process";
+import { sleep } from "bun";
+import type { RoleSelection } from "./groupsScraper";
 import {
-	getGroupRoles,
-	streamGroupMembers,
-	type GroupMemberEntry,
-	type Roleset
-} from "./groupsScraper";
-import { streamFriends } from "./usersScraper";
+	DEFAULT_CACHE_FILE,
+	DEFAULT_CACHE_MAX_AGE_MS,
+	openStatusCache,
+	type PersistentStatusCache
+} from "./statusCache";
 import {
-	checkLotsOfUsers,
-	flagTypeToString,
-	type UserStatus
-} from "./rotector";
-
-interface GroupConfig {
-	id: string;
-	cap?: number;
-}
+	loadConfigFile,
+	parseDuration,
+	type CrawlConfig,
+	type FileConfig,
+	type GroupConfig,
+	type OutputFormat
+} from "./config";
+import { STDIN_PATH, listNameFor, type UserListConfig } from "./listSource";
+import { runDiffCommand } from "./runDiff";
+import { runReportCommand } from "./runReport";
+import { runServeCommand } from "./server";
+import {
+	createDatabaseSink,
+	openScanDatabase,
+	runQueryCommand
+} from "./database";
+import { createCsvSink, runExportCommand } from "./csvExport";
+import {
+	createFlaggedGroupsSink,
+	formatFlaggedGroups,
+	runFlaggedGroupsCommand
+} from "./flaggedGroups";
+import {
+	createOutputFilter,
+	isFilterActive,
+	parseFlagTypes,
+	type OutputFilter
+} from "./outputFilter";
+import { loadRun } from "./runFiles";
+import { runRetryFailedCommand } from "./failedLookups";
+import { runLookupCommand } from "./userLookup";
+import { runAnalyzeCommand } from "./runAnalysis";
+import {
+	disableCookies,
+	readCookieFile,
+	redactCookies,
+	useCookies
+} from "./cookiePool";
+import {
+	scanTargets,
+	type ScanEvent,
+	type ScanResult,
+	type ScanSink,
+	type ScanTargets,
+	type StatusSnapshot
+} from "./scanner";
+import {
+	WATCH_EVENTS_FILE,
+	WATCH_STATE_FILE,
+	appendEvents,
+	captureRunState,
+	detectChanges,
+	postWebhook,
+	readWatchState,
+	writeWatchState
+} from "./watch";
 
 interface CliOptions {
 	friendIds: string[];
 	groups: GroupConfig[];
+	lists: UserListConfig[];
+	followers: string[];
+	followings: string[];
+	/** CSV column applied to every `--users-file`. */
+	usersColumn?: string;
+	crawl: CrawlConfig;
 	outputDir: string;
 	verbose: boolean;
-}
-
-interface SourceRunSummary {
-	type: "friends" | "group";
-	targetId: string;
-	label: string;
-	totalUsers: number;
-	uniqueUsers: number;
-	newlyChecked: number;
-	indexFile: string;
-	flagBreakdown: Record<string, number>;
-}
-
-interface ProcessResult {
-	totalCollected: number;
-	uniqueUsers: number;
-	newlyChecked: number;
-	flagBreakdown: Record<string, number>;
-	unsafeMatches: number;
-}
-
-interface StatusSnapshot {
-	totalCollected: number;
-	uniqueUsers: number;
-	matchedUsers: number;
-	unsafeMatches: number;
-	queueSize: number;
+	cacheFile?: string;
+	cacheEnabled: boolean;
+	cacheMaxAgeMs?: number;
+	resumeDir?: string;
+	watchIntervalMs?: number;
+	webhookUrl?: string;
+	/** Extra output written next to the NDJSON files once a scan finishes. */
+	format: OutputFormat;
+	outputFilter: OutputFilter;
+	/** SQLite database that mirrors every run, see `database.ts`. */
+	dbFile?: string;
+	/** Targets scanned at the same time. */
+	concurrency: number;
+	/** Write `groups-of-flagged.json` once the scan finishes. */
+	flaggedGroups: boolean;
+	/** Pool of `.ROBLOSECURITY` tokens used instead of COOKIE. */
+	cookieFile?: string;
+	/** False sends no cookie at all, which only suits public endpoints. */
+	cookiesEnabled: boolean;
 }
 
 interface Logger {
 	readonly verboseEnabled: boolean;
-	status(message: string): void;
-	statusDone(finalMessage?: string): void;
+	/** Show `message` as the live status line of `key`, one line per key. */
+	status(message: string, key?: string): void;
+	/** Drop the status line of `key` (all of them without one), printing `finalMessage` instead. */
+	statusDone(finalMessage?: string, key?: string): void;
 	log(message: string): void;
 	warn(message: string): void;
 	verbose(message: string): void;
 }
 
 function createLogger(verbose: boolean): Logger {
-	let statusActive = false;
-	let lastStatusLength = 0;
+	// Live lines are redrawn in place, so they only make sense on a terminal.
+	const live = !verbose && !!process.stdout.isTTY;
+	const lines = new Map<string, string>();
+	let drawn = 0;
 
 	const prefix = "[status] ";
 
-	function status(message: string) {
-		if (verbose) {
-			console.log(`${prefix}${message}`);
-			return;
+	function fit(line: string) {
+		const width = process.stdout.columns;
+		return width && line.length >= width ? line.slice(0, width - 1) : line;
+	}
+
+	function clear() {
+		if (!drawn) return;
+		process.stdout.write(`\x1b[${drawn}A\x1b[0J`);
+		drawn = 0;
+	}
+
+	function draw() {
+		for (const line of lines.values()) {
+			process.stdout.write(`${fit(`${prefix}${line}`)}\n`);
 		}
-		const line = `${prefix}${message}`;
-		const padding = Math.max(0, lastStatusLength - message.length);
-		process.stdout.write(`\r${" ".repeat(lastStatusLength)}${"\b".repeat(lastStatusLength)}`);
-		process.stdout.write(`${line}${" ".repeat(padding)}\r`);
-		lastStatusLength = message.length;
-		statusActive = true;
+		drawn = lines.size;
 	}
 
-	function statusDone(finalMessage?: string) {
+	function status(message: string, key = "") {
 		if (verbose) {
-			if (finalMessage) console.log(`${prefix}${finalMessage}`);
+			console.log(`${prefix}${message}`);
 			return;
 		}
-		if (finalMessage) {
-			const padding = Math.max(0, lastStatusLength - finalMessage.length);
-			process.stdout.write(
-				`\r${prefix}${finalMessage}${" ".repeat(padding)}\n`
-			);
-		} else if (statusActive) {
-			process.stdout.write("\n");
-		}
-		statusActive = false;
-		lastStatusLength = 0;
+		lines.set(key, message);
+		if (!live) return;
+		clear();
+		draw();
+	}
+
+	function statusDone(finalMessage?: string, key?: string) {
+		if (live) clear();
+		if (key === undefined) lines.clear();
+		else lines.delete(key);
+		if (finalMessage) console.log(`${prefix}${finalMessage}`);
+		if (live) draw();
 	}
 
 	function log(message: string) {
-		if (!verbose) {
-			statusDone();
-		}
+		if (live) clear();
 		console.log(message);
+		if (live) draw();
 	}
 
 	function warn(message: string) {
-		if (!verbose) {
-			statusDone();
-		}
+		if (live) clear();
 		console.warn(message);
+		if (live) draw();
 	}
 
 	function verboseLog(message: string) {
@@ -130,28 +183,160 @@ function createLogger(verbose: boolean): Logger {
 	};
 }
 
-const statusCache = new Map<number, UserStatus>();
-const LOOKUP_BATCH_SIZE = 50;
+function readFlagValue(argv: string[], flag: string): string | undefined {
+	const index = argv.indexOf(flag);
+	if (index === -1) return undefined;
+	const value = argv[index + 1];
+	if (!value) throw new Error(`Missing value for ${flag}`);
+	return value;
+}
 
-function formatTimestamp(date = new Date()): string {
-	return date.toISOString().replace(/[:.]/g, "-");
+function applyFileConfig(opts: CliOptions, file: FileConfig) {
+	const { crawl, outputFilter, ...rest } = file;
+	Object.assign(opts, rest);
+	opts.crawl = { ...opts.crawl, ...crawl };
+	opts.outputFilter = { ...opts.outputFilter, ...outputFilter };
 }
 
 function printHelp() {
-	console.log(`robloxHELL CLI\n\nUsage:\n  bun run src/index.ts --output <dir> [options]\n\nOptions:\n  -o, --output <dir>      Directory to write reports (required)\n  -f, --friend <id[,id]>  Roblox user ID(s) whose friends are scraped\n  -g, --group <id[:cap]>  Roblox group ID to scrape, optional cap per group\n  -v, --verbose           Print detailed progress (disables single-line status)\n  -h, --help              Show this help message\n\nYou must set the COOKIE environment variable with a valid .ROBLOSECURITY token.\nMultiple --friend and --group flags may be provided.`);
+	console.log(`robloxHELL CLI\n\nUsage:\n  bun run src/index.ts --output <dir> [options]\n  bun run src/index.ts diff <runA> <runB> [options]\n  bun run src/index.ts retry-failed <runDir>\n  bun run src/index.ts report <runDir> [options]\n  bun run src/index.ts export <runDir> [options]\n  bun run src/index.ts serve <outputDir> [options]\n  bun run src/index.ts query <db> <query> [options]\n  bun run src/index.ts flagged-groups <runDir> [options]\n  bun run src/index.ts lookup <userId|username>... [options]\n  bun run src/index.ts analyze <runDir> [options]\n\nOptions:\n      --config <file>     Load targets and settings from a JSON or TOML file\n      --profile <name>    Apply a named profile from the config file\n  -o, --output <dir>      Directory to write reports (required unless resuming)\n  -f, --friend <id[,id]>  Roblox user ID(s) whose friends are scraped\n      --followers <id[,id]>\n                          Roblox user ID(s) whose followers are scraped\n      --followings <id[,id]>\n                          Roblox user ID(s) whose followings are scraped\n  -g, --group <id[:cap][;selector...]>\n                          Roblox group ID to scrape, optional cap and role selectors\n                          (roles=<a,b>, exclude=<a,b>, rank>=N, rolecap=<role>:<n>)\n      --users-file <file> Check the user IDs listed in a text or CSV file (- reads stdin)\n      --users-column <c>  CSV column holding the user IDs (default: userId, user_id or id)\n      --depth <n>         Crawl friends-of-friends up to n hops (default 1)\n      --expand <mode>     Which users to crawl past: flagged (default) or all\n      --max-per-hop <n>   Expand at most n users on each hop\n  -v, --verbose           Print detailed progress (disables the live status lines)\n      --cache <file>      Rotector status cache file (default <output>/${DEFAULT_CACHE_FILE})\n      --cache-max-age <d> Reuse cached statuses up to this age, e.g. 12h or 7d (default 7d, or the --watch interval)\n      --no-cache          Always query Rotector and leave the cache untouched\n      --cookie-file <f>   Rotate through the .ROBLOSECURITY tokens listed in this file, one per line\n      --no-cookie         Send no cookie; only group and --users-file targets work\n      --resume <runDir>   Continue an interrupted run from its last checkpoint\n      --watch <interval>  Re-scan the targets every interval (e.g. 30m) and log changes\n      --webhook <url>     POST watch events as JSON to this URL\n      --only-flagged      Only write flagged users to the rotector files\n      --flag-types <list> Only write these flag types, e.g. unsafe,mixed,past_offender\n      --min-confidence <n> Only write users whose confidence is at least n (0-1)\n      --format <fmt>      ndjson (default), or csv to also write users.csv and reasons.csv\n      --db <file>         Also store runs, users and statuses in this SQLite database\n      --concurrency <n>   Scan up to n targets at the same time (default 1)\n      --flagged-groups    Also rank the groups of flagged users in groups-of-flagged.json\n  -h, --help              Show this help message\n\nSet the COOKIE environment variable to a valid .ROBLOSECURITY token, or use --cookie-file; tokens are checked with Roblox before scanning.\nMultiple --friend, --group, --users-file, --followers and --followings flags may be provided; they replace the config file's targets.`);
+}
+
+function parseRoleList(raw: string): string[] {
+	return raw
+		.split(",")
+		.map((part) => part.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Parse one `;`-separated selector of a `--group` value:
+ * `roles=<a,b>`, `exclude=<a,b>`, `rank>=N` (also `>`, `<=`, `<`, `=N`, `=N-M`)
+ * or `rolecap=<role>:<n>`. Roles are given by ID or name.
+ */
+function parseRoleSelector(
+	selector: string,
+	selection: RoleSelection,
+	groupId: string
+): RoleSelection {
+	const invalid = () =>
+		new Error(`Invalid role selector "${selector}" for group ${groupId}`);
+
+	const rank = /^rank\s*(>=|<=|>|<|=)\s*(\d+)(?:\s*-\s*(\d+))?$/.exec(
+		selector
+	);
+	if (rank) {
+		const [, op, lowRaw, highRaw] = rank;
+		const value = Number(lowRaw);
+		if (highRaw !== undefined && op !== "=") throw invalid();
+		switch (op) {
+			case ">=":
+				return { ...selection, minRank: value };
+			case ">":
+				return { ...selection, minRank: value + 1 };
+			case "<=":
+				return { ...selection, maxRank: value };
+			case "<":
+				return { ...selection, maxRank: value - 1 };
+			default:
+				return {
+					...selection,
+					minRank: value,
+					maxRank: highRaw !== undefined ? Number(highRaw) : value
+				};
+		}
+	}
+
+	const eq = selector.indexOf("=");
+	if (eq === -1) throw invalid();
+	const key = selector.slice(0, eq).trim();
+	const value = selector.slice(eq + 1).trim();
+	if (!value) throw invalid();
+
+	switch (key) {
+		case "role":
+		case "roles":
+			return {
+				...selection,
+				include: [...(selection.include ?? []), ...parseRoleList(value)]
+			};
+		case "exclude":
+			return {
+				...selection,
+				exclude: [...(selection.exclude ?? []), ...parseRoleList(value)]
+			};
+		case "rolecap": {
+			const sep = value.lastIndexOf(":");
+			const role = value.slice(0, sep).trim();
+			const cap = Number(value.slice(sep + 1));
+			if (sep === -1 || !role || !Number.isInteger(cap) || cap <= 0)
+				throw invalid();
+			return {
+				...selection,
+				roleCaps: { ...(selection.roleCaps ?? {}), [role]: cap }
+			};
+		}
+		default:
+			throw invalid();
+	}
+}
+
+function parseUserIds(raw: string): string[] {
+	const ids: string[] = [];
+	for (const id of raw.split(",")) {
+		const trimmed = id.trim();
+		if (!trimmed) continue;
+		if (!/^\d+$/.test(trimmed))
+			throw new Error(`Invalid Roblox user id: ${trimmed}`);
+		ids.push(trimmed);
+	}
+	return ids;
 }
 
 function parseArgs(argv: string[]): CliOptions {
 	const opts: CliOptions = {
 		friendIds: [],
 		groups: [],
+		lists: [],
+		followers: [],
+		followings: [],
+		crawl: { depth: 1, expand: "flagged" },
 		outputDir: "",
-		verbose: false
+		verbose: false,
+		cacheEnabled: true,
+		format: "ndjson",
+		outputFilter: createOutputFilter(),
+		concurrency: 1,
+		flaggedGroups: false,
+		cookiesEnabled: true
+	};
+
+	const configPath = readFlagValue(argv, "--config");
+	const profile = readFlagValue(argv, "--profile");
+	if (profile !== undefined && configPath === undefined)
+		throw new Error("--profile requires --config");
+	if (configPath !== undefined)
+		applyFileConfig(opts, loadConfigFile(configPath, profile));
+
+	// Targets given on the command line replace the config file's targets.
+	let cliTargets = false;
+	const useCliTargets = () => {
+		if (cliTargets) return;
+		cliTargets = true;
+		opts.friendIds = [];
+		opts.groups = [];
+		opts.lists = [];
+		opts.followers = [];
+		opts.followings = [];
 	};
 
 	for (let i = 0; i < argv.length; i++) {
 		const arg = argv[i];
 		switch (arg) {
+			case "--config":
+			case "--profile":
+				i++;
+				break;
 			case "-h":
 			case "--help":
 				printHelp();
@@ -170,20 +355,27 @@ function parseArgs(argv: string[]): CliOptions {
 				const idsRaw = argv[++i];
 				if (!idsRaw)
 					throw new Error("Missing value for --friend/--friends");
-				for (const id of idsRaw.split(",")) {
-					const trimmed = id.trim();
-					if (!trimmed) continue;
-					if (!/^\d+$/.test(trimmed))
-						throw new Error(`Invalid Roblox user id: ${trimmed}`);
-					opts.friendIds.push(trimmed);
-				}
+				useCliTargets();
+				opts.friendIds.push(...parseUserIds(idsRaw));
+				break;
+			}
+			case "--followers":
+			case "--followings": {
+				const idsRaw = argv[++i];
+				if (!idsRaw) throw new Error(`Missing value for ${arg}`);
+				useCliTargets();
+				const direction =
+					arg === "--followers" ? "followers" : "followings";
+				opts[direction].push(...parseUserIds(idsRaw));
 				break;
 			}
 			case "-g":
 			case "--group": {
 				const groupRaw = argv[++i];
 				if (!groupRaw) throw new Error("Missing value for --group");
-				const [groupIdRaw, capRaw] = groupRaw.split(":");
+				useCliTargets();
+				const [head, ...selectors] = groupRaw.split(";");
+				const [groupIdRaw, capRaw] = head!.split(":");
 				if (!/^\d+$/.test(groupIdRaw!))
 					throw new Error(`Invalid Roblox group id: ${groupIdRaw}`);
 				const cfg: GroupConfig = { id: groupIdRaw! };
@@ -195,224 +387,182 @@ function parseArgs(argv: string[]): CliOptions {
 						);
 					cfg.cap = parsed;
 				}
+				for (const selector of selectors) {
+					if (!selector.trim()) continue;
+					cfg.roles = parseRoleSelector(
+						selector.trim(),
+						cfg.roles ?? {},
+						cfg.id
+					);
+				}
 				opts.groups.push(cfg);
 				break;
 			}
+			case "--users-file": {
+				const path = argv[++i];
+				if (!path) throw new Error("Missing value for --users-file");
+				useCliTargets();
+				opts.lists.push({
+					name: listNameFor(path),
+					path:
+						path === STDIN_PATH
+							? path
+							: resolve(process.cwd(), path)
+				});
+				break;
+			}
+			case "--users-column": {
+				const column = argv[++i];
+				if (!column)
+					throw new Error("Missing value for --users-column");
+				opts.usersColumn = column;
+				break;
+			}
+			case "--depth": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --depth");
+				const parsed = Number(raw);
+				if (!Number.isInteger(parsed) || parsed <= 0)
+					throw new Error(`Invalid crawl depth: ${raw}`);
+				opts.crawl.depth = parsed;
+				break;
+			}
+			case "--expand": {
+				const mode = argv[++i];
+				if (mode !== "flagged" && mode !== "all")
+					throw new Error(
+						`Invalid value for --expand: ${mode} (expected flagged or all)`
+					);
+				opts.crawl.expand = mode;
+				break;
+			}
+			case "--max-per-hop": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --max-per-hop");
+				const parsed = Number(raw);
+				if (!Number.isInteger(parsed) || parsed <= 0)
+					throw new Error(`Invalid value for --max-per-hop: ${raw}`);
+				opts.crawl.maxPerHop = parsed;
+				break;
+			}
 			case "-v":
 			case "--verbose": {
 				opts.verbose = true;
 				break;
 			}
+			case "--cache": {
+				const file = argv[++i];
+				if (!file) throw new Error("Missing value for --cache");
+				opts.cacheFile = file;
+				break;
+			}
+			case "--cache-max-age": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --cache-max-age");
+				opts.cacheMaxAgeMs = parseDuration(raw, "--cache-max-age");
+				break;
+			}
+			case "--no-cache": {
+				opts.cacheEnabled = false;
+				break;
+			}
+			case "--cookie-file": {
+				const file = argv[++i];
+				if (!file) throw new Error("Missing value for --cookie-file");
+				opts.cookieFile = file;
+				break;
+			}
+			case "--no-cookie": {
+				opts.cookiesEnabled = false;
+				break;
+			}
+			case "--format": {
+				const format = argv[++i];
+				if (format !== "ndjson" && format !== "csv")
+					throw new Error("--format must be ndjson or csv");
+				opts.format = format;
+				break;
+			}
+			case "--only-flagged": {
+				opts.outputFilter.onlyFlagged = true;
+				break;
+			}
+			case "--flag-types": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --flag-types");
+				opts.outputFilter.flagTypes = parseFlagTypes(raw);
+				break;
+			}
+			case "--min-confidence": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --min-confidence");
+				const parsed = Number(raw);
+				if (Number.isNaN(parsed) || parsed < 0 || parsed > 1)
+					throw new Error(
+						`Invalid --min-confidence: ${raw} (expected 0 to 1)`
+					);
+				opts.outputFilter.minConfidence = parsed;
+				break;
+			}
+			case "--watch": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --watch");
+				opts.watchIntervalMs = parseDuration(raw, "--watch");
+				break;
+			}
+			case "--webhook": {
+				const url = argv[++i];
+				if (!url) throw new Error("Missing value for --webhook");
+				if (!/^https?:\/\//.test(url))
+					throw new Error("--webhook must be an http(s) URL");
+				opts.webhookUrl = url;
+				break;
+			}
+			case "--db": {
+				const file = argv[++i];
+				if (!file) throw new Error("Missing value for --db");
+				opts.dbFile = file;
+				break;
+			}
+			case "--concurrency": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --concurrency");
+				const parsed = Number(raw);
+				if (!Number.isInteger(parsed) || parsed <= 0)
+					throw new Error(`Invalid value for --concurrency: ${raw}`);
+				opts.concurrency = parsed;
+				break;
+			}
+			case "--flagged-groups": {
+				opts.flaggedGroups = true;
+				break;
+			}
+			case "--resume": {
+				const dir = argv[++i];
+				if (!dir) throw new Error("Missing value for --resume");
+				opts.resumeDir = dir;
+				break;
+			}
 			default:
 				throw new Error(`Unknown argument: ${arg}`);
 		}
 	}
 
-	return opts;
-}
-
-function persistCache(results: Record<string, UserStatus>) {
-	for (const [userId, status] of Object.entries(results)) {
-		statusCache.set(Number(userId), status);
-	}
-}
-
-async function appendLine(stream: WriteStream, text: string): Promise<void> {
-	if (!stream.write(`${text}\n`)) {
-		await once(stream, "drain");
+	if (opts.usersColumn) {
+		for (const list of opts.lists) list.column = opts.usersColumn;
 	}
-}
-
-async function appendJsonLine(
-	stream: WriteStream,
-	payload: Record<string, unknown>
-): Promise<void> {
-	await appendLine(stream, JSON.stringify(payload));
-}
-
-async function closeWriter(stream: WriteStream): Promise<void> {
-	stream.end();
-	await once(stream, "close");
-}
-
-function ensureTargetDir(
-	runDir: string,
-	type: "friends" | "group",
-	targetId: string
-): { dirPath: string; relativeDir: string } {
-	const relativeDir = `${type}-${targetId}`;
-	const dirPath = join(runDir, relativeDir);
-	mkdirSync(dirPath, { recursive: true });
-	return { dirPath, relativeDir };
-}
-
-interface ProcessEntriesOptions<Entry> {
-	runId: string;
-	type: "friends" | "group";
-	targetId: string;
-	label: string;
-	metadata?: Record<string, unknown>;
-	entryStream: AsyncIterable<Entry>;
-	extractUserId(entry: Entry): number;
-	onEntryCollected(entry: Entry): Promise<void>;
-	rotectorWriter: WriteStream;
-	logger: Logger;
-	statusUpdater?: (snapshot: StatusSnapshot) => void;
-}
-
-async function processEntries<Entry>({
-	runId,
-	type,
-	targetId,
-	label,
-	metadata,
-	entryStream,
-	extractUserId,
-	onEntryCollected,
-	rotectorWriter,
-	logger,
-	statusUpdater
-}: ProcessEntriesOptions<Entry>): Promise<ProcessResult> {
-	const seenIds = new Set<number>();
-	const pendingLookup: number[] = [];
-	const flagBreakdown: Record<string, number> = {};
-
-	let totalCollected = 0;
-	let uniqueUsers = 0;
-	let newlyChecked = 0;
-	let unsafeMatches = 0;
-
-	const getMatchedUsers = () =>
-		Object.values(flagBreakdown).reduce((sum, count) => sum + count, 0);
-
-	const emitStatus = () => {
-		if (!statusUpdater) return;
-		statusUpdater({
-			totalCollected,
-			uniqueUsers,
-			matchedUsers: getMatchedUsers(),
-			unsafeMatches,
-			queueSize: pendingLookup.length
-		});
-	};
-
-	const writeStatus = async (status: UserStatus) => {
-		const flagLabel = flagTypeToString(status.flagType);
-		flagBreakdown[flagLabel] = (flagBreakdown[flagLabel] ?? 0) + 1;
-		if (status.flagType !== 0) unsafeMatches++;
-
-		await appendJsonLine(rotectorWriter, {
-			runId,
-			generatedAt: new Date().toISOString(),
-			source: {
-				type,
-				targetId,
-				label,
-				...(metadata ?? {})
-			},
-			user: {
-				id: status.id,
-				flagType: status.flagType,
-				flagLabel,
-				status
-			}
-		});
-	};
-
-	const flushLookup = async () => {
-		if (!pendingLookup.length) return;
-		const chunk = pendingLookup.splice(0);
-		logger.verbose(
-			`[${label}] checking ${chunk.length} user(s) against Rotector`
-		);
-		const lookupResults = await checkLotsOfUsers(chunk);
-		persistCache(lookupResults);
-		newlyChecked += chunk.length;
-
-		for (const id of chunk) {
-			const status = lookupResults[id.toString()];
-			if (status) {
-				await writeStatus(status);
-			} else {
-				logger.warn(`[${label}] missing Rotector data for ${id}`);
-			}
-		}
-
-		emitStatus();
-	};
-
-	for await (const entry of entryStream) {
-		await onEntryCollected(entry);
-		const userId = extractUserId(entry);
-		totalCollected++;
-
-		if (seenIds.has(userId)) {
-			continue;
-		}
-
-		seenIds.add(userId);
-		uniqueUsers++;
-
-		const cached = statusCache.get(userId);
-		if (cached) {
-			await writeStatus(cached);
-			continue;
-		}
-
-		pendingLookup.push(userId);
-		if (pendingLookup.length >= LOOKUP_BATCH_SIZE) {
-			await flushLookup();
-		}
-
-		emitStatus();
+	const listNames = new Set<string>();
+	for (const list of opts.lists) {
+		if (listNames.has(list.name))
+			throw new Error(
+				`Two user lists would both be written to list-${list.name}; rename one of the files`
+			);
+		listNames.add(list.name);
 	}
+	if (opts.lists.filter((list) => list.path === STDIN_PATH).length > 1)
+		throw new Error("Only one --users-file can read from stdin");
 
-	await flushLookup();
-	emitStatus();
-
-	return {
-		totalCollected,
-		uniqueUsers,
-		newlyChecked,
-		flagBreakdown,
-		unsafeMatches
-	};
-}
-
-function buildIndexPayload(args: {
-	runId: string;
-	type: "friends" | "group";
-	targetId: string;
-	label: string;
-	metadata?: Record<string, unknown>;
-	stats: ProcessResult;
-	files: Record<string, unknown>;
-}): Record<string, unknown> {
-	const { runId, type, targetId, label, metadata, stats, files } = args;
-	const uniqueMatched = Object.values(stats.flagBreakdown).reduce(
-		(sum, count) => sum + count,
-		0
-	);
-
-	return {
-		runId,
-		generatedAt: new Date().toISOString(),
-		source: {
-			type,
-			targetId,
-			label,
-			...(metadata ?? {})
-		},
-		counts: {
-			totalCollected: stats.totalCollected,
-			uniqueCollected: stats.uniqueUsers,
-			uniqueMatched,
-			newlyChecked: stats.newlyChecked,
-			unsafeMatches: stats.unsafeMatches
-		},
-		flagBreakdown: stats.flagBreakdown,
-		files
-	};
+	return opts;
 }
 
 function formatStatusLine(label: string, snapshot: StatusSnapshot): string {
@@ -423,262 +573,334 @@ function formatStatusLine(label: string, snapshot: StatusSnapshot): string {
 	return `${label} :: total ${snapshot.totalCollected} | unique ${snapshot.uniqueUsers} | matched ${snapshot.matchedUsers} (unsafe ${snapshot.unsafeMatches}) | queue ${snapshot.queueSize} | pending ${pendingMatches}`;
 }
 
-async function processFriendSource(
-	friendId: string,
-	runDir: string,
-	runId: string,
+/** Print a scan's events on the console and hand back its result. */
+async function consumeScan(
+	scan: AsyncGenerator<ScanEvent, ScanResult>,
 	logger: Logger
-): Promise<SourceRunSummary> {
-	const type = "friends";
-	const label = `friends:${friendId}`;
-	const { dirPath, relativeDir } = ensureTargetDir(runDir, type, friendId);
-	const usersWriter = createWriteStream(join(dirPath, "users"), {
-		flags: "a"
-	});
-	const rotectorWriter = createWriteStream(join(dirPath, "rotector"), {
-		flags: "a"
-	});
-
-	logger.status(`${label} initializing...`);
-
-	const stats = await processEntries<number>({
-		runId,
-		type,
-		targetId: friendId,
-		label,
-		metadata: { subjectUserId: friendId },
-		entryStream: streamFriends(friendId),
-		extractUserId: (id) => id,
-		onEntryCollected: async (id) => {
-			await appendLine(usersWriter, id.toString());
-		},
-		rotectorWriter,
-		logger,
-		statusUpdater: (snapshot) => {
-			logger.status(formatStatusLine(label, snapshot));
-		}
-	});
-
-	logger.statusDone(
-		`${label} complete :: unique ${stats.uniqueUsers} / unsafe ${stats.unsafeMatches}`
-	);
-
-	await closeWriter(usersWriter);
-	await closeWriter(rotectorWriter);
-
-	const indexPayload = buildIndexPayload({
-		runId,
-		type,
-		targetId: friendId,
-		label,
-		metadata: { subjectUserId: friendId },
-		stats,
-		files: {
-			index: "index.json",
-			users: "users",
-			rotector: "rotector"
+): Promise<ScanResult> {
+	for (;;) {
+		const next = await scan.next();
+		if (next.done) return next.value;
+		const event = next.value;
+
+		switch (event.type) {
+			case "run_started":
+				if (event.resumed) {
+					logger.log(
+						`Resuming run ${basename(event.runDir)} (${
+							event.completedTargets.length
+						} target(s) already complete)`
+					);
+				}
+				break;
+			case "target_started":
+				logger.status(
+					`${event.target.label} ${
+						event.resumed ? "resuming" : "initializing"
+					}...`,
+					event.target.label
+				);
+				break;
+			case "progress":
+				logger.status(
+					formatStatusLine(event.target.label, event.progress),
+					event.target.label
+				);
+				break;
+			case "target_finished":
+				logger.statusDone(
+					`${event.target.label} complete :: unique ${event.summary.uniqueUsers} / unsafe ${event.unsafeMatches}`,
+					event.target.label
+				);
+				break;
+			case "log":
+				if (event.level === "warn") logger.warn(event.message);
+				else if (event.level === "verbose")
+					logger.verbose(event.message);
+				else logger.log(event.message);
+				break;
+			case "run_finished": {
+				const failedLookups = Number(
+					event.summary.stats.failedLookups ?? 0
+				);
+				logger.statusDone();
+				logger.log(
+					`Run complete. Wrote ${event.summary.sources.length} target folder(s) under ${event.runDir}`
+				);
+				if (failedLookups) {
+					logger.warn(
+						`${failedLookups} user(s) still have no Rotector data; run \`retry-failed ${event.runDir}\` later to fill the gaps`
+					);
+				}
+				break;
+			}
 		}
-	});
-
-	writeFileSync(
-		join(dirPath, "index.json"),
-		JSON.stringify(indexPayload, undefined, 2)
-	);
+	}
+}
 
-	return {
-		type,
-		targetId: friendId,
-		label,
-		totalUsers: stats.totalCollected,
-		uniqueUsers: stats.uniqueUsers,
-		newlyChecked: stats.newlyChecked,
-		indexFile: join(relativeDir, "index.json"),
-		flagBreakdown: stats.flagBreakdown
-	};
+/**
+ * Sinks for the extra outputs requested by `--format`, `--db` and
+ * `--flagged-groups`.
+ */
+function createSinks(options: CliOptions, logger: Logger): ScanSink[] {
+	const sinks: ScanSink[] = [];
+	if (options.format === "csv") {
+		sinks.push(
+			createCsvSink({
+				onExported: (result) =>
+					logger.log(
+						`Wrote ${result.userRows} flagged user row(s) to ${result.usersFile}`
+					)
+			})
+		);
+	}
+	if (options.dbFile) {
+		const path = resolve(process.cwd(), options.dbFile);
+		sinks.push(createDatabaseSink(openScanDatabase(path)));
+		logger.verbose(`[db] storing results in ${path}`);
+	}
+	if (options.flaggedGroups) {
+		sinks.push(
+			createFlaggedGroupsSink({
+				log: (message) => logger.verbose(message),
+				onWritten: (file, result) => {
+					logger.log(formatFlaggedGroups(result));
+					logger.log(
+						`Wrote ${result.groups.length} group(s) to ${file}`
+					);
+				}
+			})
+		);
+	}
+	return sinks;
 }
 
-async function processGroupSource(
-	group: GroupConfig,
-	runDir: string,
-	runId: string,
+/**
+ * Scan the configured targets every `watchIntervalMs`, appending what changed
+ * since the previous pass to the events file (and the webhook, if set).
+ */
+async function runWatch(
+	options: CliOptions,
+	targets: ScanTargets,
+	outputDir: string,
+	cache: PersistentStatusCache | null,
+	sinks: ScanSink[],
 	logger: Logger
-): Promise<SourceRunSummary> {
-	const type = "group";
-	const label = `group:${group.id}`;
-	const { dirPath, relativeDir } = ensureTargetDir(runDir, type, group.id);
-
-	const roles = await getGroupRoles(group.id);
-	writeFileSync(
-		join(dirPath, "roles.json"),
-		JSON.stringify(
-			{
-				runId,
-				generatedAt: new Date().toISOString(),
-				groupId: group.id,
-				roles
-			},
-			undefined,
-			2
-		)
+): Promise<never> {
+	const intervalMs = options.watchIntervalMs!;
+	const statePath = join(outputDir, WATCH_STATE_FILE);
+	const eventsPath = join(outputDir, WATCH_EVENTS_FILE);
+	let previous = readWatchState(statePath);
+
+	logger.log(
+		`[watch] scanning every ${Math.round(
+			intervalMs / 1000
+		)}s; events go to ${eventsPath}`
 	);
 
-	const roleWriters = new Map<number, WriteStream>();
-	const roleCounts: Record<string, number> = {};
+	for (let pass = 1; ; pass++) {
+		try {
+			// Each pass asks Rotector (or the disk cache) again.
+			const outcome = await consumeScan(
+				scanTargets({
+					targets,
+					outputDir,
+					cache,
+					sinks,
+					concurrency: options.concurrency
+				}),
+				logger
+			);
 
-	const createRoleWriters = (rolesets: Roleset[]) => {
-		for (const role of rolesets) {
-			const writer = createWriteStream(join(dirPath, `${role.id}`), {
-				flags: "a"
-			});
-			roleWriters.set(role.id, writer);
-		}
-	};
+			const current = await captureRunState(loadRun(outcome.runDir));
+			const baseline = !previous;
+			const events = previous ? detectChanges(previous, current) : [];
+			appendEvents(eventsPath, events);
+			writeWatchState(statePath, current);
+			previous = current;
+
+			logger.log(
+				`[watch] pass ${pass}: ${events.length} change(s)${
+					baseline ? " (baseline)" : ""
+				}`
+			);
 
-	createRoleWriters(roles);
-
-	const rotectorWriter = createWriteStream(join(dirPath, "rotector"), {
-		flags: "a"
-	});
-
-	logger.status(`${label} initializing...`);
-
-	const stats = await processEntries<GroupMemberEntry>({
-		runId,
-		type,
-		targetId: group.id,
-		label,
-		metadata: { groupId: group.id, cap: group.cap ?? null },
-		entryStream: streamGroupMembers(group.id, group.cap, roles),
-		extractUserId: (entry) => entry.userId,
-		onEntryCollected: async (entry) => {
-			const writer = roleWriters.get(entry.rolesetId);
-			if (!writer)
-				throw new Error(`Missing writer for roleset ${entry.rolesetId}`);
-			roleCounts[entry.rolesetId.toString()] =
-				(roleCounts[entry.rolesetId.toString()] ?? 0) + 1;
-			await appendLine(writer, entry.userId.toString());
-		},
-		rotectorWriter,
-		logger,
-		statusUpdater: (snapshot) => {
-			logger.status(formatStatusLine(label, snapshot));
+			if (options.webhookUrl && events.length) {
+				try {
+					await postWebhook(
+						options.webhookUrl,
+						outcome.runId,
+						events
+					);
+				} catch (err) {
+					logger.warn(`[watch] ${(err as Error).message}`);
+				}
+			}
+		} catch (err) {
+			logger.warn(
+				`[watch] pass ${pass} failed: ${(err as Error).message}`
+			);
 		}
-	});
 
-	logger.statusDone(
-		`${label} complete :: unique ${stats.uniqueUsers} / unsafe ${stats.unsafeMatches}`
-	);
-
-	await Promise.all([...roleWriters.values()].map((w) => closeWriter(w)));
-	await closeWriter(rotectorWriter);
-
-	const indexPayload = buildIndexPayload({
-		runId,
-		type,
-		targetId: group.id,
-		label,
-		metadata: { groupId: group.id, cap: group.cap ?? null },
-		stats,
-		files: {
-			index: "index.json",
-			rotector: "rotector",
-			roles: "roles.json",
-			roleFiles: Object.keys(roleCounts).length
-				? roleCounts
-				: roles.reduce<Record<string, number>>((acc, role) => {
-						acc[role.id.toString()] = 0;
-						return acc;
-				  }, {})
-		}
-	});
+		await sleep(intervalMs);
+	}
+}
 
-	writeFileSync(
-		join(dirPath, "index.json"),
-		JSON.stringify(indexPayload, undefined, 2)
-	);
+const COMMANDS: Record<string, (argv: string[]) => Promise<void>> = {
+	diff: runDiffCommand,
+	"retry-failed": runRetryFailedCommand,
+	report: runReportCommand,
+	export: runExportCommand,
+	serve: runServeCommand,
+	query: runQueryCommand,
+	"flagged-groups": runFlaggedGroupsCommand,
+	lookup: runLookupCommand,
+	analyze: runAnalyzeCommand
+};
+
+/** Subcommands that contact Roblox and so take the cookie flags too. */
+const ROBLOX_COMMANDS = new Set(["retry-failed", "flagged-groups", "lookup"]);
+
+function applyCookieOptions(enabled: boolean, cookieFile?: string) {
+	if (!enabled) {
+		disableCookies();
+	} else if (cookieFile) {
+		useCookies(readCookieFile(resolve(process.cwd(), cookieFile)));
+	}
+}
 
-	return {
-		type,
-		targetId: group.id,
-		label,
-		totalUsers: stats.totalCollected,
-		uniqueUsers: stats.uniqueUsers,
-		newlyChecked: stats.newlyChecked,
-		indexFile: join(relativeDir, "index.json"),
-		flagBreakdown: stats.flagBreakdown
-	};
+/** Apply `--cookie-file` and `--no-cookie` and return the other arguments. */
+function takeCookieFlags(argv: string[]): string[] {
+	const rest: string[] = [];
+	let enabled = true;
+	let cookieFile: string | undefined;
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		if (arg === "--no-cookie") {
+			enabled = false;
+		} else if (arg === "--cookie-file") {
+			cookieFile = argv[++i];
+			if (!cookieFile) throw new Error("Missing value for --cookie-file");
+		} else {
+			rest.push(arg);
+		}
+	}
+	applyCookieOptions(enabled, cookieFile);
+	return rest;
 }
 
 async function main() {
-	const runId = formatTimestamp();
-
 	try {
-		const options = parseArgs(process.argv.slice(2));
-		const logger = createLogger(options.verbose);
+		const argv = process.argv.slice(2);
+		const name = argv[0] ?? "";
+		const command = COMMANDS[name];
+		if (command) {
+			const commandArgv = argv.slice(1);
+			await command(
+				ROBLOX_COMMANDS.has(name)
+					? takeCookieFlags(commandArgv)
+					: commandArgv
+			);
+			return;
+		}
 
-		if (!options.outputDir)
-			throw new Error("--output directory is required");
-		if (!options.friendIds.length && !options.groups.length)
-			throw new Error("Provide at least one --friend or --group target");
-		if (!process.env.COOKIE)
-			throw new Error("COOKIE environment variable (.ROBLOSECURITY) is missing");
+		const options = parseArgs(argv);
+		const logger = createLogger(options.verbose);
 
-		const resolvedOutput = resolve(process.cwd(), options.outputDir);
+		applyCookieOptions(options.cookiesEnabled, options.cookieFile);
+
+		const hasTargets =
+			options.friendIds.length ||
+			options.groups.length ||
+			options.lists.length ||
+			options.followers.length ||
+			options.followings.length;
+		if (options.resumeDir) {
+			if (hasTargets)
+				throw new Error(
+					"--resume reuses the targets of the original run; drop --friend/--group/--users-file/--followers/--followings"
+				);
+			if (options.watchIntervalMs)
+				throw new Error("--watch cannot be combined with --resume");
+			if (isFilterActive(options.outputFilter))
+				throw new Error(
+					"--resume reuses the output filter of the original run; drop --only-flagged/--flag-types/--min-confidence"
+				);
+		} else {
+			if (!options.outputDir)
+				throw new Error("--output directory is required");
+			if (!hasTargets)
+				throw new Error(
+					"Provide at least one --friend, --group, --users-file, --followers or --followings target"
+				);
+			if (options.watchIntervalMs && options.lists.length)
+				throw new Error(
+					"--watch cannot re-read --users-file lists; scan them once instead"
+				);
+		}
+		const resolvedOutput = options.outputDir
+			? resolve(process.cwd(), options.outputDir)
+			: dirname(resolve(process.cwd(), options.resumeDir!));
 		mkdirSync(resolvedOutput, { recursive: true });
-		const runDir = join(resolvedOutput, runId);
-		mkdirSync(runDir, { recursive: true });
 
-		const summaries: SourceRunSummary[] = [];
-
-		for (const friendId of options.friendIds) {
-			summaries.push(
-				await processFriendSource(friendId, runDir, runId, logger)
+		let cache: PersistentStatusCache | null = null;
+		if (options.cacheEnabled) {
+			cache = openStatusCache(
+				resolve(
+					process.cwd(),
+					options.cacheFile ??
+						join(resolvedOutput, DEFAULT_CACHE_FILE)
+				),
+				options.cacheMaxAgeMs ??
+					options.watchIntervalMs ??
+					DEFAULT_CACHE_MAX_AGE_MS
 			);
-		}
-
-		for (const group of options.groups) {
 			logger.verbose(
-				`[group:${group.id}] streaming members${
-					group.cap ? ` (cap ${group.cap})` : ""
-				}...`
+				`[cache] loaded ${
+					cache.stats().loaded
+				} cached status(es) from ${cache.path}`
 			);
-			summaries.push(await processGroupSource(group, runDir, runId, logger));
 		}
 
-		const aggregateBreakdown: Record<string, number> = {};
-		for (const summary of summaries) {
-			for (const [label, count] of Object.entries(summary.flagBreakdown)) {
-				aggregateBreakdown[label] =
-					(aggregateBreakdown[label] ?? 0) + count;
-			}
-		}
-
-		const summaryPayload = {
-			runId,
-			generatedAt: new Date().toISOString(),
-			runDirectory: runDir,
-			stats: {
-				sourcesAnalyzed: summaries.length,
-				uniqueUsersMatched: statusCache.size,
-				totalIdsCollected: summaries.reduce(
-					(acc, s) => acc + s.totalUsers,
-					0
-				)
-			},
-			flagBreakdown: aggregateBreakdown,
-			sources: summaries
+		const targets: ScanTargets = {
+			friendIds: options.friendIds,
+			groups: options.groups,
+			lists: options.lists,
+			followers: options.followers,
+			followings: options.followings,
+			crawl: options.crawl,
+			outputFilter: isFilterActive(options.outputFilter)
+				? options.outputFilter
+				: null
 		};
 
-		const summaryFile = join(runDir, "summary.json");
-		writeFileSync(summaryFile, JSON.stringify(summaryPayload, undefined, 2));
+		const sinks = createSinks(options, logger);
+
+		if (options.watchIntervalMs) {
+			await runWatch(
+				options,
+				targets,
+				resolvedOutput,
+				cache,
+				sinks,
+				logger
+			);
+		}
 
-		logger.statusDone();
-		logger.log(
-			`Run complete. Wrote ${summaries.length} target folder(s) under ${runDir}`
+		await consumeScan(
+			scanTargets({
+				...(options.resumeDir
+					? { resumeDir: resolve(process.cwd(), options.resumeDir) }
+					: { targets, outputDir: resolvedOutput }),
+				cache,
+				sinks,
+				concurrency: options.concurrency
+			}),
+			logger
 		);
 	} catch (err) {
 		if (err instanceof Error) {
-			console.error(err.message);
+			console.error(redactCookies(err.message));
 		} else {
 			console.error(err);
 		}
@@ -0,0 +1,140 @@
+import { createReadStream, existsSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { createInterface } from "node:readline";
+import process from "node:process";
+
+/** Pass `-` as the path to read from stdin. */
+export const STDIN_PATH = "-";
+
+const DEFAULT_ID_COLUMNS = ["userid", "user_id", "user id", "id", "robloxid"];
+const CHECKPOINT_EVERY_LINES = 100;
+
+export interface UserListConfig {
+	/** Target folder is `list-<name>`. */
+	name: string;
+	path: string;
+	/** CSV column holding the user IDs; implies CSV parsing. */
+	column?: string;
+}
+
+export interface UserListEntry {
+	userId: number;
+	line: number;
+}
+
+export interface UserListPosition {
+	/** Lines fully consumed so far, header included. */
+	line: number;
+}
+
+export interface UserListStreamOptions {
+	resumeFrom?: UserListPosition | null;
+	/** Called every few lines, once every earlier ID was consumed. */
+	onPage?(position: UserListPosition): Promise<void> | void;
+	/** Called for lines that hold no usable user ID. */
+	onInvalid?(line: number, text: string): void;
+}
+
+/** Folder-friendly name for a list file: `mod-export.csv` -> `mod-export`. */
+export function listNameFor(path: string): string {
+	if (path === STDIN_PATH) return "stdin";
+	const stem = basename(path, extname(path));
+	return stem.replace(/[^A-Za-z0-9_-]+/g, "-") || "list";
+}
+
+export function isCsvList(list: UserListConfig): boolean {
+	return !!list.column || extname(list.path).toLowerCase() === ".csv";
+}
+
+/** Split one CSV line, honouring double-quoted fields. */
+function splitCsvLine(line: string): string[] {
+	const fields: string[] = [];
+	let current = "";
+	let quoted = false;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i]!;
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				current += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				current += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			fields.push(current);
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	fields.push(current);
+	return fields.map((field) => field.trim());
+}
+
+function findIdColumn(header: string[], list: UserListConfig): number {
+	const names = header.map((name) => name.toLowerCase());
+	const index = list.column
+		? names.indexOf(list.column.toLowerCase())
+		: names.findIndex((name) => DEFAULT_ID_COLUMNS.includes(name));
+	if (index === -1)
+		throw new Error(
+			`${list.path}: ${
+				list.column
+					? `no column named "${list.column}"`
+					: "no user ID column found (pass --users-column)"
+			}; header is ${header.join(", ")}`
+		);
+	return index;
+}
+
+/**
+ * Stream user IDs from a plain list (one ID per line, `#` comments allowed)
+ * or a CSV file with a header row. Reading stdin cannot be rewound, so a
+ * resumed stdin list expects the same input to be piped in again.
+ */
+export async function* streamUserList(
+	list: UserListConfig,
+	options: UserListStreamOptions = {}
+): AsyncGenerator<UserListEntry> {
+	if (list.path !== STDIN_PATH && !existsSync(list.path))
+		throw new Error(`User list not found: ${list.path}`);
+
+	const lines = createInterface({
+		input:
+			list.path === STDIN_PATH
+				? process.stdin
+				: createReadStream(list.path, { encoding: "utf8" }),
+		crlfDelay: Infinity
+	});
+	const csv = isCsvList(list);
+	const skipUntil = options.resumeFrom?.line ?? 0;
+	let idColumn = -1;
+	let lineNumber = 0;
+
+	for await (const raw of lines) {
+		lineNumber++;
+		if (csv && idColumn === -1) {
+			idColumn = findIdColumn(splitCsvLine(raw), list);
+			continue;
+		}
+		if (lineNumber <= skipUntil) continue;
+		if (lineNumber % CHECKPOINT_EVERY_LINES === 0)
+			await options.onPage?.({ line: lineNumber - 1 });
+
+		const text = raw.trim();
+		if (!text || (!csv && text.startsWith("#"))) continue;
+
+		const value = csv
+			? splitCsvLine(raw)[idColumn] ?? ""
+			: text.split(/[\s,;]+/, 1)[0]!;
+		if (!/^\d+$/.test(value)) {
+			options.onInvalid?.(lineNumber, text);
+			continue;
+		}
+		yield { userId: Number(value), line: lineNumber };
+	}
+}
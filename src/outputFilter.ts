@@ -0,0 +1,75 @@
+import { flagTypeToString, UserFlagStatus, type UserStatus } from "./rotector";
+
+/**
+ * Which statuses are written to a target's `rotector` stream. Counts and
+ * analytics still cover every scanned user; only the stream is filtered.
+ */
+export interface OutputFilter {
+	onlyFlagged: boolean;
+	/** Flag labels to keep, e.g. `["UNSAFE", "MIXED"]`; null keeps all. */
+	flagTypes: string[] | null;
+	/** Drop statuses below this confidence, or without one. */
+	minConfidence: number | null;
+}
+
+export function createOutputFilter(): OutputFilter {
+	return { onlyFlagged: false, flagTypes: null, minConfidence: null };
+}
+
+export function isFilterActive(filter: OutputFilter | null | undefined) {
+	return (
+		!!filter &&
+		(filter.onlyFlagged ||
+			filter.flagTypes !== null ||
+			filter.minConfidence !== null)
+	);
+}
+
+/**
+ * Parse `unsafe,mixed,6` into flag labels, accepting names or numbers.
+ * `option` names the flag or parameter in error messages.
+ */
+export function parseFlagTypes(raw: string, option = "--flag-types"): string[] {
+	const labels = raw
+		.split(",")
+		.map((part) => part.trim())
+		.filter(Boolean)
+		.map((part) => {
+			const label = /^\d+$/.test(part)
+				? flagTypeToString(Number(part))
+				: part.toUpperCase();
+			if (!(label in UserFlagStatus)) {
+				throw new Error(
+					`Unknown flag type "${part}" in ${option}; expected one of ${Object.keys(
+						UserFlagStatus
+					)
+						.filter((key) => Number.isNaN(Number(key)))
+						.join(", ")
+						.toLowerCase()}`
+				);
+			}
+			return label;
+		});
+	if (!labels.length)
+		throw new Error(`${option} needs at least one flag type`);
+	return [...new Set(labels)];
+}
+
+export function shouldWriteStatus(
+	filter: OutputFilter | null | undefined,
+	status: UserStatus
+): boolean {
+	if (!filter) return true;
+	if (filter.onlyFlagged && status.flagType === 0) return false;
+	if (
+		filter.flagTypes &&
+		!filter.flagTypes.includes(flagTypeToString(status.flagType))
+	)
+		return false;
+	if (
+		filter.minConfidence !== null &&
+		(status.confidence ?? -1) < filter.minConfidence
+	)
+		return false;
+	return true;
+}
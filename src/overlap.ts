@@ -0,0 +1,155 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { Roleset } from "./groupsScraper";
+import {
+	readIdList,
+	readLatestStatuses,
+	readRoleMembers,
+	type RotectorRecord
+} from "./runFiles";
+
+export const OVERLAP_FILE = "overlap.json";
+
+type OverlapRole = Pick<Roleset, "id" | "name" | "rank">;
+
+/**
+ * Where every user of a run was collected, filled in while the targets are
+ * scanned, plus the latest Rotector result for each of them.
+ */
+export interface Provenance {
+	/** User ID to the labels of the targets they were seen in, with their group role. */
+	sightings: Map<number, Map<string, OverlapRole | null>>;
+	users: Map<number, RotectorRecord["user"]>;
+}
+
+export interface OverlapSighting {
+	target: string;
+	/** Null outside group targets. */
+	role: OverlapRole | null;
+}
+
+export interface OverlapUser {
+	userId: number;
+	username: string | null;
+	displayName: string | null;
+	flagType: number;
+	flagLabel: string;
+	confidence: number | null;
+	targets: OverlapSighting[];
+}
+
+export interface OverlapFile {
+	runId: string;
+	generatedAt: string;
+	targets: string[];
+	/** Flagged users seen in two or more targets, most widespread first. */
+	users: OverlapUser[];
+	/**
+	 * Flagged users shared by each pair of targets; the diagonal holds the
+	 * flagged users of the target itself.
+	 */
+	matrix: Record<string, Record<string, number>>;
+}
+
+export function createProvenance(): Provenance {
+	return { sightings: new Map(), users: new Map() };
+}
+
+export function recordSighting(
+	provenance: Provenance,
+	userId: number,
+	label: string,
+	role: Roleset | null = null
+) {
+	let targets = provenance.sightings.get(userId);
+	if (!targets) {
+		targets = new Map();
+		provenance.sightings.set(userId, targets);
+	}
+	if (!targets.has(label) || role) {
+		targets.set(
+			label,
+			role ? { id: role.id, name: role.name, rank: role.rank } : null
+		);
+	}
+}
+
+export function recordOverlapStatus(
+	provenance: Provenance,
+	record: RotectorRecord
+) {
+	provenance.users.set(record.user.id, record.user);
+}
+
+/**
+ * Add what an interrupted run already wrote to a target folder, so a resumed
+ * run still knows about users collected before it stopped. Only users
+ * written to `rotector` have a status here.
+ */
+export async function seedProvenance(
+	provenance: Provenance,
+	label: string,
+	targetDir: string
+) {
+	if (!existsSync(targetDir)) return;
+	for (const userId of readIdList(join(targetDir, "users"))) {
+		recordSighting(provenance, userId, label);
+	}
+	for (const [userId, role] of readRoleMembers(targetDir)) {
+		recordSighting(provenance, userId, label, role);
+	}
+	for (const record of (await readLatestStatuses(targetDir)).values()) {
+		recordOverlapStatus(provenance, record);
+	}
+}
+
+export function buildOverlap(
+	provenance: Provenance,
+	runId: string,
+	labels: string[]
+): OverlapFile {
+	const matrix: Record<string, Record<string, number>> = {};
+	for (const a of labels) {
+		matrix[a] = {};
+		for (const b of labels) matrix[a]![b] = 0;
+	}
+
+	const users: OverlapUser[] = [];
+	for (const [userId, targets] of provenance.sightings) {
+		const user = provenance.users.get(userId);
+		if (!user || user.flagType === 0) continue;
+
+		const seenIn = [...targets.keys()];
+		for (const a of seenIn) {
+			for (const b of seenIn) {
+				if (matrix[a]?.[b] !== undefined) matrix[a]![b]!++;
+			}
+		}
+		if (seenIn.length < 2) continue;
+
+		users.push({
+			userId,
+			username: user.username,
+			displayName: user.displayName,
+			flagType: user.flagType,
+			flagLabel: user.flagLabel,
+			confidence: user.status.confidence ?? null,
+			targets: [...targets].map(([target, role]) => ({ target, role }))
+		});
+	}
+
+	users.sort(
+		(a, b) =>
+			b.targets.length - a.targets.length ||
+			(b.confidence ?? 0) - (a.confidence ?? 0) ||
+			a.userId - b.userId
+	);
+
+	return {
+		runId,
+		generatedAt: new Date().toISOString(),
+		targets: labels,
+		users,
+		matrix
+	};
+}
@@ -1,12 +1,5 @@
 import { sleep } from "bun";
-
-const MAX_HTTP_RETRIES = 5;
-const BASE_RETRY_DELAY_MS = 1000;
-const MAX_RETRY_DELAY_MS = 30_000;
-
-function retryDelayMs(attempt: number) {
-	return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
-}
+import { requestJSON } from "./httpClient";
 
 export interface Reason {
 	message: string;
@@ -40,6 +33,12 @@ interface BatchApiResponse {
 	error?: string;
 }
 
+interface SingleApiResponse {
+	success: boolean;
+	data?: UserStatus;
+	error?: string;
+}
+
 /* ------------------------------------------------------------ */
 /*  UTILITY FUNCTIONS                                           */
 /* ------------------------------------------------------------ */
@@ -89,119 +88,79 @@ export function flagTypeToString(f: number): string {
 	return "UNKNOWN";
 }
 
+/**
+ * How serious a flag type is, for detecting escalations. Unknown flag types
+ * rank with the in-between states.
+ */
+export function flagSeverity(f: number): number {
+	switch (f) {
+		case UserFlagStatus.SAFE:
+			return 0;
+		case UserFlagStatus.PAST_OFFENDER:
+			return 2;
+		case UserFlagStatus.MIXED:
+			return 3;
+		case UserFlagStatus.UNSAFE:
+			return 4;
+		default:
+			return 1;
+	}
+}
+
 /* ------------------------------------------------------------ */
-/*  GLOBAL RATE-LIMIT GATE                                      */
+/*  SINGLE USER REQUEST                                         */
 /* ------------------------------------------------------------ */
 
-let global429Lock: Promise<void> | null = null;
-
-async function waitForGlobal429() {
-	if (global429Lock) {
-		await global429Lock;
-	}
-}
+/** Look up one user; unflagged users come back with flagType 0. */
+export async function checkUser(userId: number): Promise<UserStatus> {
+	const result = await requestJSON<SingleApiResponse>({
+		url: `https://roscoe.rotector.com/v1/lookup/roblox/user/${userId}`,
+		label: `contacting Rotector about ${userId}`
+	});
 
-async function activateGlobal429(waitMs: number) {
-	// Prevent overlapping locks
-	if (!global429Lock) {
-		global429Lock = (async () => {
-			console.warn(`rotector: GLOBAL 429 HALT for ${waitMs}ms`);
-			await sleep(waitMs);
-			global429Lock = null;
-			console.warn("rotector: GLOBAL 429 CLEARED");
-		})();
+	if (!result.success || !result.data) {
+		throw new Error(result.error || `Failed to fetch user ${userId}`);
 	}
 
-	await global429Lock;
+	return result.data;
 }
 
 /* ------------------------------------------------------------ */
-/*  SINGLE BATCH REQUEST (429 SAFE)                             */
+/*  SINGLE BATCH REQUEST                                        */
 /* ------------------------------------------------------------ */
 
 async function checkMultipleUsers(
 	userIds: number[]
 ): Promise<Record<string, UserStatus>> {
-	let consecutiveFailures = 0;
-
-	while (true) {
-		await waitForGlobal429();
-
-		let response: Response;
-		try {
-			response = await fetch(
-				"https://roscoe.rotector.com/v1/lookup/roblox/user",
-				{
-					method: "POST",
-					headers: {
-						"Content-Type": "application/json",
-						"User-Agent":
-							"robloxHELL/1.0 (+https://ocbwoy3.dev, ocbwoy3@ocbwoy3.dev)"
-					},
-					body: JSON.stringify({ ids: userIds } as BatchRequest)
-				}
-			);
-		} catch (err) {
-			consecutiveFailures++;
-			if (consecutiveFailures > MAX_HTTP_RETRIES) {
-				throw new Error(
-					`Network error contacting Rotector: ${(err as Error).message}`
-				);
-			}
-			const waitMs = retryDelayMs(consecutiveFailures);
-			console.warn(
-				`rotector: network error, retrying batch in ${Math.round(
-					waitMs / 1000
-				)}s (attempt ${consecutiveFailures})`
-			);
-			await sleep(waitMs);
-			continue;
-		}
-
-		if (response.ok) {
-			consecutiveFailures = 0;
-			const result = (await response.json()) as BatchApiResponse;
-
-			if (!result.success || !result.data) {
-				throw new Error(result.error || "Failed to fetch users data");
-			}
-
-			return result.data;
-		}
-
-		if (response.status === 429) {
-			consecutiveFailures = 0;
-			const retryAfter = Number(response.headers.get("Retry-After")) || 10;
-			const waitMs = retryAfter * 1000 + 2500;
-
-			// HALT all new batches + wait
-			await activateGlobal429(waitMs);
-			continue;
-		}
-
-		consecutiveFailures++;
-		if (consecutiveFailures > MAX_HTTP_RETRIES) {
-			throw new Error(`HTTP error! status: ${response.status}`);
-		}
-
-		const waitMs = retryDelayMs(consecutiveFailures);
-		console.warn(
-			`rotector: HTTP ${response.status}, retrying batch in ${Math.round(
-				waitMs / 1000
-			)}s (attempt ${consecutiveFailures})`
-		);
-		await sleep(waitMs);
+	const result = await requestJSON<BatchApiResponse>({
+		url: "https://roscoe.rotector.com/v1/lookup/roblox/user",
+		method: "POST",
+		body: { ids: userIds } as BatchRequest,
+		label: "contacting Rotector"
+	});
+
+	if (!result.success || !result.data) {
+		throw new Error(result.error || "Failed to fetch users data");
 	}
+
+	return result.data;
 }
 
 /* ------------------------------------------------------------ */
 /*  BATCH PROCESSOR                                             */
 /* ------------------------------------------------------------ */
 
-export async function checkLotsOfUsers(
-	ids: number[]
-): Promise<Record<string, UserStatus>> {
+export interface LookupOutcome {
+	statuses: Record<string, UserStatus>;
+	/** IDs whose batch failed after every retry, or that Rotector left out. */
+	failedIds: number[];
+	errors: string[];
+}
+
+export async function checkLotsOfUsers(ids: number[]): Promise<LookupOutcome> {
 	const userStatuses: Record<string, UserStatus> = {};
+	const failedIds: number[] = [];
+	const errors: string[] = [];
 
 	const BATCH_SIZE = 50;
 	const START_DELAY_MS = 150;
@@ -220,8 +179,6 @@ export async function checkLotsOfUsers(
 			await sleep(START_DELAY_MS);
 		}
 
-		await waitForGlobal429();
-
 		// console.log(`rotector: launching batch ${i + 1}/${batches.length}`);
 
 		const task = checkMultipleUsers(batches[i]!)
@@ -229,7 +186,8 @@ export async function checkLotsOfUsers(
 				Object.assign(userStatuses, data);
 			})
 			.catch((err) => {
-				// console.error(`Batch ${i + 1} failed:`, err);
+				failedIds.push(...batches[i]!);
+				errors.push((err as Error).message);
 			});
 
 		runningTasks.push(task);
@@ -237,5 +195,12 @@ export async function checkLotsOfUsers(
 
 	await Promise.all(runningTasks);
 
-	return userStatuses;
+	const alreadyFailed = new Set(failedIds);
+	for (const id of ids) {
+		if (!userStatuses[id.toString()] && !alreadyFailed.has(id)) {
+			failedIds.push(id);
+		}
+	}
+
+	return { statuses: userStatuses, failedIds, errors };
 }
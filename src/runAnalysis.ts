@@ -0,0 +1,209 @@
+import { writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import process from "node:process";
+import { flagSeverity, type UserStatus } from "./rotector";
+import {
+	loadRun,
+	readLatestStatuses,
+	runIdOf,
+	type LoadedRun,
+	type RotectorRecord
+} from "./runFiles";
+
+export const FLAGGED_EXPORT_FILE = "flagged.json";
+
+export interface FlagGroup {
+	/** `<flagLabel> (<flagType>)`, e.g. `UNSAFE (2)`. */
+	label: string;
+	flagType: number;
+	userIds: number[];
+}
+
+export interface FlaggedUserExport {
+	userId: number;
+	username: string | null;
+	displayName: string | null;
+	flagType: number;
+	flagLabel: string;
+	confidence: number | null;
+	/** Labels of the targets the user was found in. */
+	targets: string[];
+	status: UserStatus;
+}
+
+export interface RunAnalysis {
+	runId: string;
+	generatedAt: string;
+	/** Users with a Rotector status, each counted once across targets. */
+	uniqueUsers: number;
+	/** Most severe flag type first; SAFE comes last. */
+	groups: FlagGroup[];
+	/** Every user whose flag type is not SAFE, most severe first. */
+	flagged: FlaggedUserExport[];
+}
+
+/** What {@link FLAGGED_EXPORT_FILE} holds; SAFE users only appear as a count. */
+export interface FlaggedExportFile {
+	runId: string;
+	generatedAt: string;
+	uniqueUsers: number;
+	/** Users per group label, SAFE included. */
+	flagBreakdown: Record<string, number>;
+	users: FlaggedUserExport[];
+}
+
+export function toFlaggedExport(analysis: RunAnalysis): FlaggedExportFile {
+	return {
+		runId: analysis.runId,
+		generatedAt: analysis.generatedAt,
+		uniqueUsers: analysis.uniqueUsers,
+		flagBreakdown: Object.fromEntries(
+			analysis.groups.map((group) => [group.label, group.userIds.length])
+		),
+		users: analysis.flagged
+	};
+}
+
+function groupLabel(record: RotectorRecord): string {
+	return `${record.user.flagLabel} (${record.user.flagType})`;
+}
+
+/**
+ * Group every user of a run by flag label. A user found by several targets
+ * keeps the newest of their records.
+ */
+export async function analyzeRun(run: LoadedRun): Promise<RunAnalysis> {
+	const latest = new Map<number, RotectorRecord>();
+	const targets = new Map<number, string[]>();
+	for (const target of run.targets) {
+		const statuses = await readLatestStatuses(target.dirPath);
+		for (const [userId, record] of statuses) {
+			const previous = latest.get(userId);
+			if (!previous || previous.generatedAt <= record.generatedAt)
+				latest.set(userId, record);
+			const labels = targets.get(userId) ?? [];
+			labels.push(target.summary.label);
+			targets.set(userId, labels);
+		}
+	}
+
+	const bySeverity = (a: number, b: number) =>
+		flagSeverity(b) - flagSeverity(a) || a - b;
+
+	const groups = new Map<string, FlagGroup>();
+	for (const [userId, record] of latest) {
+		const label = groupLabel(record);
+		let group = groups.get(label);
+		if (!group) {
+			group = { label, flagType: record.user.flagType, userIds: [] };
+			groups.set(label, group);
+		}
+		group.userIds.push(userId);
+	}
+
+	const flagged = [...latest.values()]
+		.filter((record) => record.user.flagType !== 0)
+		.map(({ user }) => ({
+			userId: user.id,
+			username: user.username,
+			displayName: user.displayName,
+			flagType: user.flagType,
+			flagLabel: user.flagLabel,
+			confidence: user.status.confidence ?? null,
+			targets: targets.get(user.id) ?? [],
+			status: user.status
+		}))
+		.sort(
+			(a, b) =>
+				bySeverity(a.flagType, b.flagType) ||
+				(b.confidence ?? 0) - (a.confidence ?? 0) ||
+				a.userId - b.userId
+		);
+
+	return {
+		runId: runIdOf(run),
+		generatedAt: new Date().toISOString(),
+		uniqueUsers: latest.size,
+		groups: [...groups.values()]
+			.map((group) => ({
+				...group,
+				userIds: group.userIds.sort((a, b) => a - b)
+			}))
+			.sort((a, b) => bySeverity(a.flagType, b.flagType)),
+		flagged
+	};
+}
+
+/** Per-label counts, then the ID list of every label except SAFE. */
+export function formatRunAnalysis(analysis: RunAnalysis): string {
+	if (!analysis.uniqueUsers)
+		return `Run ${analysis.runId} has no Rotector statuses.`;
+
+	const lines = [
+		`Run ${analysis.runId}: ${analysis.uniqueUsers} unique user(s), ${analysis.flagged.length} flagged`,
+		""
+	];
+	for (const group of analysis.groups) {
+		lines.push(
+			`${group.userIds.length.toString().padStart(7)}  ${group.label}`
+		);
+	}
+
+	const flaggedGroups = analysis.groups.filter(
+		(group) => group.flagType !== 0
+	);
+	if (flaggedGroups.length) lines.push("");
+	for (const group of flaggedGroups) {
+		lines.push(`${group.label} - ${group.userIds.join(", ")}`);
+	}
+	return lines.join("\n");
+}
+
+function printAnalyzeHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts analyze <runDir> [options]\n\nGroups the users of a run (directory or summary.json, at any path) by flag label, prints each label's user IDs and writes the flagged users to ${FLAGGED_EXPORT_FILE}.\n\nOptions:\n  -o, --output <file>  Where to write the flagged users (default <runDir>/${FLAGGED_EXPORT_FILE})\n  -h, --help           Show this help message`
+	);
+}
+
+export async function runAnalyzeCommand(argv: string[]): Promise<void> {
+	const inputs: string[] = [];
+	let outputFile: string | undefined;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printAnalyzeHelp();
+				return;
+			case "-o":
+			case "--output": {
+				outputFile = argv[++i];
+				if (!outputFile) throw new Error("Missing value for --output");
+				break;
+			}
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				inputs.push(arg);
+		}
+	}
+
+	if (inputs.length !== 1)
+		throw new Error("analyze expects exactly one run directory");
+
+	const run = loadRun(inputs[0]!);
+	const analysis = await analyzeRun(run);
+	const target = outputFile
+		? resolve(process.cwd(), outputFile)
+		: join(run.runDir, FLAGGED_EXPORT_FILE);
+	writeFileSync(
+		target,
+		JSON.stringify(toFlaggedExport(analysis), undefined, 2)
+	);
+
+	console.log(formatRunAnalysis(analysis));
+	console.log(
+		`\nWrote ${target} (${analysis.flagged.length} flagged user(s))`
+	);
+}
@@ -0,0 +1,349 @@
+import { writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import process from "node:process";
+import {
+	loadRun,
+	readIdList,
+	readLatestStatuses,
+	readRolesFile,
+	runIdOf,
+	type LoadedRun,
+	type LoadedTarget,
+	type RolesFile
+} from "./runFiles";
+
+const MAX_LISTED_CHANGES = 25;
+
+export interface FlagChange {
+	userId: number;
+	before: { flagType: number; flagLabel: string };
+	after: { flagType: number; flagLabel: string };
+}
+
+export interface BreakdownChange {
+	before: number;
+	after: number;
+	delta: number;
+}
+
+export interface RoleMembershipDiff {
+	roleId: number;
+	roleName: string | null;
+	joined: number[];
+	left: number[];
+	/**
+	 * A `rolecap` cut the role short in either run, so members past the cap
+	 * are unknown; `joined` and `left` stay empty.
+	 */
+	partial: boolean;
+}
+
+/** A role only one of the runs scanned, e.g. after a change of `roles=`. */
+export interface SkippedRoleDiff {
+	roleId: number;
+	roleName: string | null;
+	scannedIn: "before" | "after";
+}
+
+export interface TargetDiff {
+	label: string;
+	type: string;
+	targetId: string;
+	flagChanges: FlagChange[];
+	newlyFlagged: number[];
+	unflagged: number[];
+	flagBreakdown: Record<string, BreakdownChange>;
+	roles: RoleMembershipDiff[];
+	skippedRoles: SkippedRoleDiff[];
+}
+
+export interface RunDiff {
+	generatedAt: string;
+	before: { runId: string; runDir: string };
+	after: { runId: string; runDir: string };
+	addedTargets: string[];
+	removedTargets: string[];
+	flagBreakdown: Record<string, BreakdownChange>;
+	targets: TargetDiff[];
+}
+
+function diffBreakdown(
+	before: Record<string, number>,
+	after: Record<string, number>
+): Record<string, BreakdownChange> {
+	const result: Record<string, BreakdownChange> = {};
+	for (const label of new Set([
+		...Object.keys(before),
+		...Object.keys(after)
+	])) {
+		const b = before[label] ?? 0;
+		const a = after[label] ?? 0;
+		result[label] = { before: b, after: a, delta: a - b };
+	}
+	return result;
+}
+
+/** Whether the role's `rolecap` was reached, leaving members unlisted. */
+function reachedRoleCap(
+	rolesFile: RolesFile | null,
+	roleId: number,
+	members: Set<number>
+): boolean {
+	const cap = rolesFile?.roleCaps?.[roleId.toString()];
+	return cap !== undefined && members.size >= cap;
+}
+
+function diffRoles(
+	before: LoadedTarget,
+	after: LoadedTarget
+): Pick<TargetDiff, "roles" | "skippedRoles"> {
+	const filesBefore = readRolesFile(before.dirPath);
+	const filesAfter = readRolesFile(after.dirPath);
+	const scannedBefore = new Set(filesBefore?.roles.map((role) => role.id));
+	const scannedAfter = new Set(filesAfter?.roles.map((role) => role.id));
+	const names = new Map<number, string>();
+	for (const role of [
+		...(filesBefore?.roles ?? []),
+		...(filesAfter?.roles ?? [])
+	])
+		names.set(role.id, role.name);
+
+	const roles: RoleMembershipDiff[] = [];
+	const skippedRoles: SkippedRoleDiff[] = [];
+	for (const roleId of names.keys()) {
+		const roleName = names.get(roleId) ?? null;
+		if (!scannedBefore.has(roleId) || !scannedAfter.has(roleId)) {
+			skippedRoles.push({
+				roleId,
+				roleName,
+				scannedIn: scannedBefore.has(roleId) ? "before" : "after"
+			});
+			continue;
+		}
+
+		const membersBefore = new Set(
+			readIdList(join(before.dirPath, roleId.toString()))
+		);
+		const membersAfter = new Set(
+			readIdList(join(after.dirPath, roleId.toString()))
+		);
+		if (
+			reachedRoleCap(filesBefore, roleId, membersBefore) ||
+			reachedRoleCap(filesAfter, roleId, membersAfter)
+		) {
+			roles.push({
+				roleId,
+				roleName,
+				joined: [],
+				left: [],
+				partial: true
+			});
+			continue;
+		}
+
+		const joined = [...membersAfter].filter((id) => !membersBefore.has(id));
+		const left = [...membersBefore].filter((id) => !membersAfter.has(id));
+		if (!joined.length && !left.length) continue;
+		roles.push({ roleId, roleName, joined, left, partial: false });
+	}
+	return { roles, skippedRoles };
+}
+
+async function diffTarget(
+	before: LoadedTarget,
+	after: LoadedTarget
+): Promise<TargetDiff> {
+	const statusesBefore = await readLatestStatuses(before.dirPath);
+	const statusesAfter = await readLatestStatuses(after.dirPath);
+
+	const flagChanges: FlagChange[] = [];
+	const newlyFlagged: number[] = [];
+	const unflagged: number[] = [];
+
+	for (const [userId, record] of statusesAfter) {
+		const previous = statusesBefore.get(userId);
+		const flaggedNow = record.user.flagType !== 0;
+		const flaggedBefore = !!previous && previous.user.flagType !== 0;
+
+		if (flaggedNow && !flaggedBefore) newlyFlagged.push(userId);
+		if (!flaggedNow && flaggedBefore) unflagged.push(userId);
+		if (previous && previous.user.flagType !== record.user.flagType) {
+			flagChanges.push({
+				userId,
+				before: {
+					flagType: previous.user.flagType,
+					flagLabel: previous.user.flagLabel
+				},
+				after: {
+					flagType: record.user.flagType,
+					flagLabel: record.user.flagLabel
+				}
+			});
+		}
+	}
+
+	return {
+		label: after.summary.label,
+		type: after.summary.type,
+		targetId: after.summary.targetId,
+		flagChanges,
+		newlyFlagged,
+		unflagged,
+		flagBreakdown: diffBreakdown(
+			before.summary.flagBreakdown,
+			after.summary.flagBreakdown
+		),
+		...(after.summary.type === "group"
+			? diffRoles(before, after)
+			: { roles: [], skippedRoles: [] })
+	};
+}
+
+/** Compare every target present in both runs, matched by label. */
+export async function diffRuns(
+	before: LoadedRun,
+	after: LoadedRun
+): Promise<RunDiff> {
+	const targetsBefore = new Map(
+		before.targets.map((t) => [t.summary.label, t])
+	);
+	const targetsAfter = new Map(
+		after.targets.map((t) => [t.summary.label, t])
+	);
+
+	const targets: TargetDiff[] = [];
+	for (const [label, target] of targetsAfter) {
+		const previous = targetsBefore.get(label);
+		if (previous) targets.push(await diffTarget(previous, target));
+	}
+
+	return {
+		generatedAt: new Date().toISOString(),
+		before: { runId: runIdOf(before), runDir: before.runDir },
+		after: { runId: runIdOf(after), runDir: after.runDir },
+		addedTargets: [...targetsAfter.keys()].filter(
+			(l) => !targetsBefore.has(l)
+		),
+		removedTargets: [...targetsBefore.keys()].filter(
+			(l) => !targetsAfter.has(l)
+		),
+		flagBreakdown: diffBreakdown(
+			before.summary.flagBreakdown,
+			after.summary.flagBreakdown
+		),
+		targets
+	};
+}
+
+function formatBreakdown(changes: Record<string, BreakdownChange>): string {
+	const parts = Object.entries(changes)
+		.filter(([, change]) => change.delta !== 0)
+		.map(
+			([label, change]) =>
+				`${label} ${change.before} -> ${change.after} (${
+					change.delta > 0 ? "+" : ""
+				}${change.delta})`
+		);
+	return parts.length ? parts.join(", ") : "unchanged";
+}
+
+function formatRole(role: { roleId: number; roleName: string | null }) {
+	return `${role.roleId}${role.roleName ? ` (${role.roleName})` : ""}`;
+}
+
+export function formatRunDiff(diff: RunDiff): string {
+	const lines = [
+		`Comparing ${diff.before.runId} -> ${diff.after.runId}`,
+		`flag breakdown: ${formatBreakdown(diff.flagBreakdown)}`
+	];
+	if (diff.addedTargets.length)
+		lines.push(`targets added: ${diff.addedTargets.join(", ")}`);
+	if (diff.removedTargets.length)
+		lines.push(`targets removed: ${diff.removedTargets.join(", ")}`);
+
+	for (const target of diff.targets) {
+		lines.push("", target.label);
+		lines.push(
+			`  flag breakdown: ${formatBreakdown(target.flagBreakdown)}`
+		);
+		lines.push(
+			`  flag changes: ${target.flagChanges.length} | newly flagged: ${target.newlyFlagged.length} | no longer flagged: ${target.unflagged.length}`
+		);
+		for (const change of target.flagChanges.slice(0, MAX_LISTED_CHANGES)) {
+			lines.push(
+				`    ${change.userId}: ${change.before.flagLabel} -> ${change.after.flagLabel}`
+			);
+		}
+		if (target.flagChanges.length > MAX_LISTED_CHANGES) {
+			lines.push(
+				`    ... and ${
+					target.flagChanges.length - MAX_LISTED_CHANGES
+				} more (see diff.json)`
+			);
+		}
+		for (const role of target.roles) {
+			lines.push(
+				`  role ${formatRole(role)}: ${
+					role.partial
+						? "partial (rolecap reached), membership not compared"
+						: `+${role.joined.length} joined / -${role.left.length} left`
+				}`
+			);
+		}
+		for (const role of target.skippedRoles) {
+			lines.push(
+				`  role ${formatRole(role)}: skipped, only scanned in the ${
+					role.scannedIn === "before" ? "older" : "newer"
+				} run`
+			);
+		}
+	}
+
+	return lines.join("\n");
+}
+
+function printDiffHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts diff <runA> <runB> [options]\n\nCompares two run directories (or their summary.json files); <runB> is treated as the newer run.\n\nOptions:\n  -o, --output <file>  Where to write diff.json (default <runB>/diff.json)\n  -h, --help           Show this help message`
+	);
+}
+
+export async function runDiffCommand(argv: string[]): Promise<void> {
+	const inputs: string[] = [];
+	let outputFile: string | undefined;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printDiffHelp();
+				return;
+			case "-o":
+			case "--output": {
+				outputFile = argv[++i];
+				if (!outputFile) throw new Error("Missing value for --output");
+				break;
+			}
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				inputs.push(arg);
+		}
+	}
+
+	if (inputs.length !== 2)
+		throw new Error("diff expects exactly two runs: diff <runA> <runB>");
+
+	const before = loadRun(inputs[0]!);
+	const after = loadRun(inputs[1]!);
+	const diff = await diffRuns(before, after);
+
+	const target = outputFile
+		? resolve(process.cwd(), outputFile)
+		: join(after.runDir, "diff.json");
+	writeFileSync(target, JSON.stringify(diff, undefined, 2));
+
+	console.log(formatRunDiff(diff));
+	console.log(`\nWrote ${target}`);
+}
@@ -0,0 +1,257 @@
+import { createReadStream, existsSync, readFileSync, statSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { basename, dirname, join, resolve } from "node:path";
+import type { RunAnalytics } from "./analytics";
+import type { RoleSelection, Roleset, SkippedRoleset } from "./groupsScraper";
+import type { OutputFilter } from "./outputFilter";
+import type { HttpStats } from "./httpClient";
+import { flagTypeToString, type UserStatus } from "./rotector";
+import type { StatusCacheStats } from "./statusCache";
+import type { UserNames } from "./usersScraper";
+
+/* ------------------------------------------------------------ */
+/*  ON-DISK FORMATS                                             */
+/* ------------------------------------------------------------ */
+
+export type SourceType =
+	| "friends"
+	| "followers"
+	| "followings"
+	| "group"
+	| "list";
+
+export interface SourceRunSummary {
+	type: SourceType;
+	targetId: string;
+	label: string;
+	totalUsers: number;
+	uniqueUsers: number;
+	newlyChecked: number;
+	cacheHits: number;
+	failedLookups: number;
+	indexFile: string;
+	flagBreakdown: Record<string, number>;
+	analytics?: RunAnalytics;
+}
+
+export interface RunSummaryFile {
+	runId: string;
+	generatedAt: string;
+	runDirectory: string;
+	stats: Record<string, unknown>;
+	/** Null when the run did not use the status cache. */
+	cache?: (StatusCacheStats & { file: string; maxAgeMs: number }) | null;
+	/** Requests per host; a resumed run only counts its last session. */
+	http?: HttpStats;
+	flagBreakdown: Record<string, number>;
+	analytics?: RunAnalytics;
+	outputFilter?: OutputFilter | null;
+	sources: SourceRunSummary[];
+}
+
+export interface TargetIndexFile {
+	runId: string;
+	generatedAt: string;
+	source: RecordSource;
+	counts: Record<string, number>;
+	flagBreakdown: Record<string, number>;
+	analytics?: RunAnalytics;
+	/** Set when only some statuses were written to `rotector`. */
+	outputFilter?: OutputFilter | null;
+	files: Record<string, unknown>;
+}
+
+export interface RolesFile {
+	runId: string;
+	generatedAt: string;
+	groupId: string;
+	selection?: RoleSelection | null;
+	/** Roles that were scanned; each has its own `<roleId>` file. */
+	roles: Roleset[];
+	skippedRoles?: SkippedRoleset[];
+	roleCaps?: Record<string, number>;
+}
+
+export type RecordSource = {
+	type: SourceType;
+	targetId: string;
+	label: string;
+} & Record<string, unknown>;
+
+/** One line of a target's `rotector` NDJSON stream. */
+export interface RotectorRecord {
+	runId: string;
+	generatedAt: string;
+	source: RecordSource;
+	user: {
+		id: number;
+		username: string | null;
+		displayName: string | null;
+		flagType: number;
+		flagLabel: string;
+		status: UserStatus;
+	};
+}
+
+export function createRotectorRecord(
+	runId: string,
+	source: RecordSource,
+	status: UserStatus,
+	names?: UserNames | null
+): RotectorRecord {
+	return {
+		runId,
+		generatedAt: new Date().toISOString(),
+		source,
+		user: {
+			id: status.id,
+			username: names?.username ?? null,
+			displayName: names?.displayName ?? null,
+			flagType: status.flagType,
+			flagLabel: flagTypeToString(status.flagType),
+			status
+		}
+	};
+}
+
+/** Add up per-target flag breakdowns into one run-level breakdown. */
+export function sumFlagBreakdowns(
+	sources: { flagBreakdown: Record<string, number> }[]
+): Record<string, number> {
+	const total: Record<string, number> = {};
+	for (const source of sources) {
+		for (const [label, count] of Object.entries(source.flagBreakdown)) {
+			total[label] = (total[label] ?? 0) + count;
+		}
+	}
+	return total;
+}
+
+/* ------------------------------------------------------------ */
+/*  READERS                                                     */
+/* ------------------------------------------------------------ */
+
+export interface LoadedTarget {
+	summary: SourceRunSummary;
+	dirPath: string;
+	index: TargetIndexFile | null;
+}
+
+export interface LoadedRun {
+	runDir: string;
+	summaryPath: string;
+	summary: RunSummaryFile;
+	targets: LoadedTarget[];
+}
+
+function readJson<T>(path: string): T {
+	return JSON.parse(readFileSync(path, "utf8")) as T;
+}
+
+/** Accepts either a run directory or the path of its `summary.json`. */
+export function resolveSummaryPath(input: string): string {
+	const path = resolve(process.cwd(), input);
+	if (!existsSync(path)) throw new Error(`No such run: ${input}`);
+	const summaryPath = statSync(path).isDirectory()
+		? join(path, "summary.json")
+		: path;
+	if (!existsSync(summaryPath))
+		throw new Error(
+			`No summary.json found for ${input}; is the run finished?`
+		);
+	return summaryPath;
+}
+
+/**
+ * Load a finished run. Target folders are resolved next to the summary
+ * rather than through `runDirectory`, so runs can be moved or copied.
+ */
+export function loadRun(input: string): LoadedRun {
+	const summaryPath = resolveSummaryPath(input);
+	const runDir = dirname(summaryPath);
+	const summary = readJson<RunSummaryFile>(summaryPath);
+
+	const targets = summary.sources.map((source) => {
+		const indexPath = join(runDir, source.indexFile);
+		return {
+			summary: source,
+			dirPath: dirname(indexPath),
+			index: existsSync(indexPath)
+				? readJson<TargetIndexFile>(indexPath)
+				: null
+		};
+	});
+
+	return { runDir, summaryPath, summary, targets };
+}
+
+export async function* readNdjson<T>(path: string): AsyncGenerator<T> {
+	if (!existsSync(path)) return;
+	const lines = createInterface({
+		input: createReadStream(path, { encoding: "utf8" }),
+		crlfDelay: Infinity
+	});
+	for await (const line of lines) {
+		if (!line.trim()) continue;
+		yield JSON.parse(line) as T;
+	}
+}
+
+export function readRotectorRecords(
+	targetDir: string
+): AsyncGenerator<RotectorRecord> {
+	return readNdjson<RotectorRecord>(join(targetDir, "rotector"));
+}
+
+/** Latest record per user from a target's `rotector` stream. */
+export async function readLatestStatuses(
+	targetDir: string
+): Promise<Map<number, RotectorRecord>> {
+	const latest = new Map<number, RotectorRecord>();
+	for await (const record of readRotectorRecords(targetDir)) {
+		latest.set(record.user.id, record);
+	}
+	return latest;
+}
+
+/** A group target's `roles.json`, or null when it has none. */
+export function readRolesFile(targetDir: string): RolesFile | null {
+	const path = join(targetDir, "roles.json");
+	return existsSync(path) ? readJson<RolesFile>(path) : null;
+}
+
+export function readRoles(targetDir: string): Roleset[] {
+	return readRolesFile(targetDir)?.roles ?? [];
+}
+
+/** Role of every member listed in a group target's role logs. */
+export function readRoleMembers(targetDir: string): Map<number, Roleset> {
+	const members = new Map<number, Roleset>();
+	for (const role of readRoles(targetDir)) {
+		for (const id of readIdList(join(targetDir, role.id.toString()))) {
+			members.set(id, role);
+		}
+	}
+	return members;
+}
+
+/**
+ * User IDs listed in a plaintext ID log such as `users` or `<roleId>`. Role
+ * logs carry tab-separated names after the ID, which are ignored here.
+ */
+export function readIdList(path: string): number[] {
+	if (!existsSync(path)) return [];
+	return readFileSync(path, "utf8")
+		.split("\n")
+		.filter((line) => line.trim())
+		.map((line) => Number(line.split("\t", 1)[0]));
+}
+
+/** Format one line of a role log: `<id>\t<username>\t<displayName>`. */
+export function formatRoleLogLine(userId: number, names: UserNames): string {
+	return `${userId}\t${names.username}\t${names.displayName}`;
+}
+
+export function runIdOf(run: LoadedRun): string {
+	return run.summary.runId ?? basename(run.runDir);
+}
@@ -0,0 +1,392 @@
+import { writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import process from "node:process";
+import {
+	loadRun,
+	readLatestStatuses,
+	readRoleMembers,
+	runIdOf,
+	type LoadedRun,
+	type RotectorRecord
+} from "./runFiles";
+import type { ScanSink } from "./scanner";
+
+export const REPORT_FILE = "report.html";
+
+const FLAG_COLORS: Record<string, string> = {
+	SAFE: "#3fa34d",
+	PENDING: "#9e9e9e",
+	UNSAFE: "#d93b3b",
+	QUEUED: "#8c8cd9",
+	INTEGRATION: "#4a90c2",
+	MIXED: "#e0902f",
+	PAST_OFFENDER: "#b5651d",
+	UNKNOWN: "#606060"
+};
+
+export interface ReportReason {
+	name: string;
+	message: string;
+	confidence: number | null;
+	evidence: string[];
+}
+
+export interface ReportUser {
+	target: string;
+	userId: number;
+	username: string | null;
+	displayName: string | null;
+	role: string | null;
+	flagType: number;
+	flagLabel: string;
+	confidence: number | null;
+	reasons: ReportReason[];
+}
+
+export interface ReportTarget {
+	label: string;
+	type: string;
+	uniqueUsers: number;
+	flagBreakdown: Record<string, number>;
+}
+
+export interface ReportData {
+	runId: string;
+	generatedAt: string;
+	runGeneratedAt: string;
+	targets: ReportTarget[];
+	flagged: ReportUser[];
+}
+
+/** Flatten one `rotector` record into the shape the report table shows. */
+export function toReportUser(
+	target: string,
+	record: RotectorRecord,
+	role: string | null
+): ReportUser {
+	const status = record.user.status;
+	return {
+		target,
+		userId: record.user.id,
+		username: record.user.username ?? null,
+		displayName: record.user.displayName ?? null,
+		role,
+		flagType: record.user.flagType,
+		flagLabel: record.user.flagLabel,
+		confidence: status.confidence ?? null,
+		reasons: Object.entries(status.reasons ?? {}).map(([name, reason]) => ({
+			name,
+			message: reason.message,
+			confidence: reason.confidence ?? null,
+			evidence: reason.evidence ?? []
+		}))
+	};
+}
+
+/** Collect everything the HTML report shows from a finished run. */
+export async function buildReportData(run: LoadedRun): Promise<ReportData> {
+	const flagged: ReportUser[] = [];
+
+	for (const target of run.targets) {
+		const roles =
+			target.summary.type === "group"
+				? readRoleMembers(target.dirPath)
+				: new Map();
+
+		for (const [userId, record] of await readLatestStatuses(
+			target.dirPath
+		)) {
+			if (record.user.flagType === 0) continue;
+			flagged.push(
+				toReportUser(
+					target.summary.label,
+					record,
+					roles.get(userId)?.name ?? null
+				)
+			);
+		}
+	}
+
+	return {
+		runId: runIdOf(run),
+		generatedAt: new Date().toISOString(),
+		runGeneratedAt: run.summary.generatedAt,
+		targets: run.targets.map((target) => ({
+			label: target.summary.label,
+			type: target.summary.type,
+			uniqueUsers: target.summary.uniqueUsers,
+			flagBreakdown: target.summary.flagBreakdown
+		})),
+		flagged
+	};
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+function renderBreakdownChart(breakdown: Record<string, number>): string {
+	const entries = Object.entries(breakdown).sort((a, b) => b[1] - a[1]);
+	if (!entries.length) return `<p class="muted">No users checked.</p>`;
+
+	const max = Math.max(...entries.map(([, count]) => count), 1);
+	const rowHeight = 24;
+	const bars = entries
+		.map(([label, count], i) => {
+			const width = Math.max(2, Math.round((count / max) * 300));
+			const y = i * rowHeight;
+			return `<text x="0" y="${y + 16}">${escapeHtml(
+				label
+			)}</text><rect x="120" y="${y + 4}" width="${width}" height="16" fill="${
+				FLAG_COLORS[label] ?? FLAG_COLORS.UNKNOWN
+			}"></rect><text x="${126 + width}" y="${y + 16}">${count}</text>`;
+		})
+		.join("");
+
+	return `<svg class="chart" width="480" height="${
+		entries.length * rowHeight + 4
+	}" role="img">${bars}</svg>`;
+}
+
+function renderTarget(target: ReportTarget, flaggedCount: number): string {
+	return `<section class="target"><h3>${escapeHtml(
+		target.label
+	)}</h3><p class="muted">${target.uniqueUsers} unique user(s), ${flaggedCount} flagged</p>${renderBreakdownChart(
+		target.flagBreakdown
+	)}</section>`;
+}
+
+// Runs in the browser: renders, sorts and filters the flagged-user table
+// from the JSON embedded in the page.
+const TABLE_SCRIPT = `
+const data = JSON.parse(document.getElementById("report-data").textContent);
+const body = document.querySelector("#flagged tbody");
+const search = document.getElementById("search");
+const targetFilter = document.getElementById("target-filter");
+const flagFilter = document.getElementById("flag-filter");
+const shown = document.getElementById("shown");
+let sortKey = "confidence";
+let sortDir = -1;
+
+for (const t of data.targets) targetFilter.add(new Option(t.label, t.label));
+for (const f of [...new Set(data.flagged.map((u) => u.flagLabel))].sort())
+	flagFilter.add(new Option(f, f));
+
+function cell(row, text) {
+	const td = row.insertCell();
+	td.textContent = text;
+	return td;
+}
+
+function sortValue(user, key) {
+	if (key === "user") return (user.username || "").toLowerCase() || user.userId;
+	if (key === "reasons") return user.reasons.map((r) => r.name).join(", ");
+	return user[key] ?? "";
+}
+
+function render() {
+	const query = search.value.trim().toLowerCase();
+	const rows = data.flagged.filter((u) => {
+		if (targetFilter.value && u.target !== targetFilter.value) return false;
+		if (flagFilter.value && u.flagLabel !== flagFilter.value) return false;
+		if (!query) return true;
+		const haystack = [u.userId, u.username, u.displayName, u.role, u.target,
+			...u.reasons.flatMap((r) => [r.name, r.message, ...r.evidence])]
+			.join(" ").toLowerCase();
+		return haystack.includes(query);
+	});
+	rows.sort((a, b) => {
+		const x = sortValue(a, sortKey);
+		const y = sortValue(b, sortKey);
+		return (x > y ? 1 : x < y ? -1 : 0) * sortDir;
+	});
+
+	body.replaceChildren();
+	for (const u of rows) {
+		const row = body.insertRow();
+		const userCell = row.insertCell();
+		const link = document.createElement("a");
+		link.href = "https://www.roblox.com/users/" + u.userId + "/profile";
+		link.target = "_blank";
+		link.rel = "noopener";
+		link.textContent = u.username ? u.displayName + " (@" + u.username + ")" : String(u.userId);
+		userCell.append(link);
+		const id = document.createElement("div");
+		id.className = "muted";
+		id.textContent = u.userId;
+		userCell.append(id);
+		cell(row, u.target);
+		cell(row, u.role ?? "");
+		cell(row, u.flagLabel).className = "flag flag-" + u.flagLabel;
+		cell(row, u.confidence === null ? "" : u.confidence.toFixed(2));
+		const reasons = row.insertCell();
+		for (const r of u.reasons) {
+			const details = document.createElement("details");
+			const summary = document.createElement("summary");
+			summary.textContent = r.name + (r.confidence === null ? "" : " (" + r.confidence.toFixed(2) + ")");
+			details.append(summary);
+			const message = document.createElement("p");
+			message.textContent = r.message;
+			details.append(message);
+			if (r.evidence.length) {
+				const list = document.createElement("ul");
+				for (const item of r.evidence) {
+					const li = document.createElement("li");
+					li.textContent = item;
+					list.append(li);
+				}
+				details.append(list);
+			}
+			reasons.append(details);
+		}
+	}
+	shown.textContent = rows.length + " of " + data.flagged.length + " flagged user(s)";
+}
+
+for (const th of document.querySelectorAll("#flagged th[data-key]")) {
+	th.addEventListener("click", () => {
+		sortDir = sortKey === th.dataset.key ? -sortDir : 1;
+		sortKey = th.dataset.key;
+		render();
+	});
+}
+search.addEventListener("input", render);
+targetFilter.addEventListener("change", render);
+flagFilter.addEventListener("change", render);
+render();
+`;
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1d1d1f; background: #fafafa; }
+h1 { margin-bottom: 0.2rem; }
+.muted { color: #6b6b6b; font-size: 0.9em; }
+.targets { display: flex; flex-wrap: wrap; gap: 1rem; }
+.target { background: #fff; border: 1px solid #ddd; border-radius: 6px; padding: 0.5rem 1rem; }
+.chart text { font-size: 12px; fill: #1d1d1f; }
+.filters { display: flex; gap: 0.5rem; margin: 1rem 0; }
+table { border-collapse: collapse; width: 100%; background: #fff; }
+th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th[data-key] { cursor: pointer; user-select: none; background: #f0f0f0; }
+details p { margin: 0.3rem 0; }
+.flag { font-weight: 600; }
+${Object.entries(FLAG_COLORS)
+	.map(([label, color]) => `.flag-${label} { color: ${color}; }`)
+	.join("\n")}
+`;
+
+export function renderReportHtml(data: ReportData): string {
+	const flaggedPerTarget = new Map<string, number>();
+	for (const user of data.flagged) {
+		flaggedPerTarget.set(
+			user.target,
+			(flaggedPerTarget.get(user.target) ?? 0) + 1
+		);
+	}
+
+	// `<` is escaped so user-supplied strings cannot close the script tag.
+	const json = JSON.stringify(data).replace(/</g, "\\u003c");
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Rotector report ${escapeHtml(data.runId)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Rotector report</h1>
+<p class="muted">Run ${escapeHtml(data.runId)}, scanned ${escapeHtml(
+		data.runGeneratedAt
+	)}; report generated ${escapeHtml(data.generatedAt)}</p>
+<h2>Targets</h2>
+<div class="targets">${data.targets
+		.map((target) =>
+			renderTarget(target, flaggedPerTarget.get(target.label) ?? 0)
+		)
+		.join("")}</div>
+<h2>Flagged users</h2>
+<div class="filters">
+<input id="search" type="search" placeholder="Search names, IDs, reasons, evidence">
+<select id="target-filter"><option value="">All targets</option></select>
+<select id="flag-filter"><option value="">All flags</option></select>
+<span id="shown" class="muted"></span>
+</div>
+<table id="flagged">
+<thead><tr><th data-key="user">User</th><th data-key="target">Target</th><th data-key="role">Role</th><th data-key="flagLabel">Flag</th><th data-key="confidence">Confidence</th><th data-key="reasons">Reasons and evidence</th></tr></thead>
+<tbody></tbody>
+</table>
+<script id="report-data" type="application/json">${json}</script>
+<script>${TABLE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export interface ReportSinkOptions {
+	/** Defaults to {@link REPORT_FILE} in the run folder. */
+	file?: string;
+	onWritten?(file: string, data: ReportData): void;
+}
+
+/** Scan sink that writes the HTML report once the run finishes. */
+export function createReportSink(options: ReportSinkOptions = {}): ScanSink {
+	return {
+		async handle(event) {
+			if (event.type !== "run_finished") return;
+			const data = await buildReportData(loadRun(event.runDir));
+			const file = options.file ?? join(event.runDir, REPORT_FILE);
+			writeFileSync(file, renderReportHtml(data));
+			options.onWritten?.(file, data);
+		}
+	};
+}
+
+function printReportHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts report <runDir> [options]\n\nWrites a single self-contained HTML file with per-target flag breakdowns and a sortable, filterable table of flagged users.\n\nOptions:\n  -o, --output <file>  Where to write the report (default <runDir>/report.html)\n  -h, --help           Show this help message`
+	);
+}
+
+export async function runReportCommand(argv: string[]): Promise<void> {
+	const inputs: string[] = [];
+	let outputFile: string | undefined;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printReportHelp();
+				return;
+			case "-o":
+			case "--output": {
+				outputFile = argv[++i];
+				if (!outputFile) throw new Error("Missing value for --output");
+				break;
+			}
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				inputs.push(arg);
+		}
+	}
+
+	if (inputs.length !== 1)
+		throw new Error("report expects exactly one run directory");
+
+	const run = loadRun(inputs[0]!);
+	const data = await buildReportData(run);
+	const target = outputFile
+		? resolve(process.cwd(), outputFile)
+		: join(run.runDir, REPORT_FILE);
+	writeFileSync(target, renderReportHtml(data));
+
+	console.log(
+		`Wrote ${target} (${data.flagged.length} flagged user(s) across ${data.targets.length} target(s))`
+	);
+}
@@ -0,0 +1,1539 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import type { WriteStream } from "node:fs";
+import { once } from "node:events";
+import { join, resolve } from "node:path";
+import {
+	getGroupRoles,
+	streamGroupMembers,
+	selectRolesets,
+	type GroupMemberEntry,
+	type GroupStreamPosition,
+	type Roleset,
+	type RolesetSelection
+} from "./groupsScraper";
+import {
+	rememberUserNames,
+	resolveUserNames,
+	streamFollows,
+	streamFriendGraph,
+	type FollowDirection,
+	type FriendGraphEntry,
+	type FriendGraphPosition,
+	type FriendStreamPosition,
+	type UserNames
+} from "./usersScraper";
+import {
+	checkLotsOfUsers,
+	flagTypeToString,
+	type LookupOutcome,
+	type UserStatus
+} from "./rotector";
+import type { PersistentStatusCache } from "./statusCache";
+import {
+	diffHttpStats,
+	getHttpStats,
+	setHttpWarningHandler,
+	validateCookies,
+	type CookieAccount
+} from "./httpClient";
+import { cookiesDisabled } from "./cookiePool";
+import {
+	createCheckpointer,
+	createRunState,
+	readRunState,
+	writeRunState,
+	type Checkpointer,
+	type RunState
+} from "./checkpoint";
+import type { CrawlConfig, GroupConfig } from "./config";
+import {
+	STDIN_PATH,
+	isCsvList,
+	streamUserList,
+	type UserListConfig,
+	type UserListEntry,
+	type UserListPosition
+} from "./listSource";
+import {
+	createAnalytics,
+	mergeAnalytics,
+	recordStatus,
+	type RunAnalytics
+} from "./analytics";
+import { shouldWriteStatus, type OutputFilter } from "./outputFilter";
+import {
+	createRotectorRecord,
+	formatRoleLogLine,
+	sumFlagBreakdowns,
+	type RolesFile,
+	type RotectorRecord,
+	type RunSummaryFile,
+	type SourceRunSummary,
+	type SourceType
+} from "./runFiles";
+import { FAILED_FILE, retryFailedLookups } from "./failedLookups";
+import {
+	OVERLAP_FILE,
+	buildOverlap,
+	createProvenance,
+	recordOverlapStatus,
+	recordSighting,
+	seedProvenance,
+	type Provenance
+} from "./overlap";
+
+export interface RunTargets {
+	friendIds: string[];
+	groups: GroupConfig[];
+	/** Absent in runs started before user lists existed. */
+	lists?: UserListConfig[];
+	/** User IDs whose followers are scanned; absent in older runs. */
+	followers?: string[];
+	/** User IDs whose followings are scanned; absent in older runs. */
+	followings?: string[];
+	crawl: CrawlConfig;
+	/** Absent in runs started before output filters existed. */
+	outputFilter?: OutputFilter | null;
+}
+
+/** Targets of a new scan; anything left out is skipped or defaulted. */
+export interface ScanTargets {
+	friendIds?: string[];
+	groups?: GroupConfig[];
+	lists?: UserListConfig[];
+	followers?: string[];
+	followings?: string[];
+	crawl?: Partial<CrawlConfig>;
+	outputFilter?: OutputFilter | null;
+}
+
+export interface ScanOptions {
+	/** Targets of a new run; a resumed run keeps its original targets. */
+	targets?: ScanTargets;
+	/** Directory that receives the new run's folder. */
+	outputDir?: string;
+	/** Continue the interrupted run in this folder instead of starting one. */
+	resumeDir?: string;
+	/** Folder name of a new run; defaults to the current timestamp. */
+	runId?: string;
+	/** Statuses shared between runs; none are reused or stored when unset. */
+	cache?: PersistentStatusCache | null;
+	/** Receive every event before it is yielded, in order. */
+	sinks?: ScanSink[];
+	/** Targets scanned at the same time; defaults to one after another. */
+	concurrency?: number;
+}
+
+export interface ScanResult {
+	runId: string;
+	runDir: string;
+	summaries: SourceRunSummary[];
+	summary: RunSummaryFile;
+}
+
+export interface StatusSnapshot {
+	totalCollected: number;
+	uniqueUsers: number;
+	matchedUsers: number;
+	unsafeMatches: number;
+	queueSize: number;
+}
+
+export interface TargetRef {
+	type: SourceType;
+	targetId: string;
+	label: string;
+}
+
+export type LogLevel = "info" | "warn" | "verbose";
+
+export interface RunStartedEvent {
+	type: "run_started";
+	runId: string;
+	runDir: string;
+	resumed: boolean;
+	/** Labels of targets an interrupted run had already finished. */
+	completedTargets: string[];
+}
+
+export interface TargetStartedEvent {
+	type: "target_started";
+	target: TargetRef;
+	resumed: boolean;
+}
+
+export interface EntryCollectedEvent {
+	type: "entry_collected";
+	target: TargetRef;
+	userId: number;
+	/** The user was already collected earlier in this target. */
+	duplicate: boolean;
+}
+
+export interface BatchCheckedEvent {
+	type: "batch_checked";
+	target: TargetRef;
+	/** Users in the batch, cache hits included. */
+	checked: number;
+	cacheHits: number;
+	failedIds: number[];
+	errors: string[];
+}
+
+export interface UserStatusEvent {
+	type: "user_status";
+	target: TargetRef;
+	record: RotectorRecord;
+	/** False when the output filter kept the record out of `rotector`. */
+	written: boolean;
+}
+
+export interface ProgressEvent {
+	type: "progress";
+	target: TargetRef;
+	progress: StatusSnapshot;
+}
+
+export interface TargetFinishedEvent {
+	type: "target_finished";
+	target: TargetRef;
+	summary: SourceRunSummary;
+	unsafeMatches: number;
+}
+
+export interface RunFinishedEvent {
+	type: "run_finished";
+	runId: string;
+	runDir: string;
+	summary: RunSummaryFile;
+}
+
+export interface LogEvent {
+	type: "log";
+	level: LogLevel;
+	message: string;
+}
+
+export type ScanEvent =
+	| RunStartedEvent
+	| TargetStartedEvent
+	| EntryCollectedEvent
+	| BatchCheckedEvent
+	| UserStatusEvent
+	| ProgressEvent
+	| TargetFinishedEvent
+	| RunFinishedEvent
+	| LogEvent;
+
+/**
+ * Receives every scan event, e.g. to write extra report formats. A rejected
+ * `handle` aborts the scan.
+ */
+export interface ScanSink {
+	handle(event: ScanEvent): Promise<void> | void;
+}
+
+interface ProcessResult {
+	totalCollected: number;
+	uniqueUsers: number;
+	newlyChecked: number;
+	cacheHits: number;
+	failedLookups: number;
+	flagBreakdown: Record<string, number>;
+	analytics: RunAnalytics;
+	unsafeMatches: number;
+}
+
+interface ScanContext {
+	runId: string;
+	runDir: string;
+	resume: boolean;
+	outputFilter: OutputFilter | null;
+	/** Statuses seen during this scan, whether looked up or cached. */
+	statusCache: Map<number, UserStatus>;
+	diskCache: PersistentStatusCache | null;
+	lookup: SharedLookup;
+	concurrency: number;
+	provenance: Provenance;
+	/** Every target's checkpointer, so a stopped scan can close its files. */
+	checkpointers: Checkpointer<unknown>[];
+	emit(event: ScanEvent): Promise<void>;
+	log(level: LogLevel, message: string): Promise<void>;
+}
+
+const LOOKUP_BATCH_SIZE = 50;
+
+export function formatTimestamp(date = new Date()): string {
+	return date.toISOString().replace(/[:.]/g, "-");
+}
+
+function persistCache(ctx: ScanContext, results: Record<string, UserStatus>) {
+	for (const [userId, status] of Object.entries(results)) {
+		ctx.statusCache.set(Number(userId), status);
+	}
+	ctx.diskCache?.setMany(results);
+}
+
+function getCachedStatus(
+	ctx: ScanContext,
+	userId: number
+): UserStatus | undefined {
+	const cached = ctx.statusCache.get(userId);
+	if (cached) return cached;
+	const stored = ctx.diskCache?.get(userId);
+	if (stored) ctx.statusCache.set(userId, stored);
+	return stored;
+}
+
+/**
+ * Checks users against Rotector for every target of a scan. A user that is
+ * already being looked up for another target waits on that lookup instead of
+ * being sent again. `sent` counts the users this call sent itself, and
+ * `shared` the users another target's lookup returned a status for.
+ */
+type SharedLookup = (
+	ids: number[]
+) => Promise<LookupOutcome & { sent: number; shared: number }>;
+
+function createSharedLookup(
+	persist: (statuses: Record<string, UserStatus>) => void
+): SharedLookup {
+	const inFlight = new Map<number, Promise<LookupOutcome>>();
+
+	return async (ids) => {
+		const fresh = ids.filter((id) => !inFlight.has(id));
+		if (fresh.length) {
+			const batch = checkLotsOfUsers(fresh)
+				.then((outcome) => {
+					persist(outcome.statuses);
+					return outcome;
+				})
+				.finally(() => {
+					for (const id of fresh) inFlight.delete(id);
+				});
+			for (const id of fresh) inFlight.set(id, batch);
+		}
+
+		const sentHere = new Set(fresh);
+		const sources = ids.map((id) => inFlight.get(id)!);
+		const outcomes = await Promise.all(sources);
+		const result: LookupOutcome & { sent: number; shared: number } = {
+			statuses: {},
+			failedIds: [],
+			errors: [],
+			sent: fresh.length,
+			shared: 0
+		};
+		ids.forEach((id, i) => {
+			const outcome = outcomes[i]!;
+			const status = outcome.statuses[id.toString()];
+			if (status) {
+				result.statuses[id.toString()] = status;
+				if (!sentHere.has(id)) result.shared++;
+				return;
+			}
+			result.failedIds.push(id);
+			for (const error of outcome.errors) {
+				if (!result.errors.includes(error)) result.errors.push(error);
+			}
+		});
+		return result;
+	};
+}
+
+async function appendLine(stream: WriteStream, text: string): Promise<void> {
+	if (!stream.write(`${text}\n`)) {
+		await once(stream, "drain");
+	}
+}
+
+async function appendJsonLine(
+	stream: WriteStream,
+	payload: object
+): Promise<void> {
+	await appendLine(stream, JSON.stringify(payload));
+}
+
+async function closeWriter(stream: WriteStream): Promise<void> {
+	stream.end();
+	await once(stream, "close");
+}
+
+function openCheckpointer<Position>(
+	ctx: ScanContext,
+	dirPath: string,
+	label: string
+): Checkpointer<Position> {
+	const checkpointer = createCheckpointer<Position>(
+		dirPath,
+		label,
+		ctx.resume
+	);
+	ctx.checkpointers.push(checkpointer);
+	return checkpointer;
+}
+
+function ensureTargetDir(
+	runDir: string,
+	type: SourceType,
+	targetId: string
+): { dirPath: string; relativeDir: string } {
+	const relativeDir = `${type}-${targetId}`;
+	const dirPath = join(runDir, relativeDir);
+	mkdirSync(dirPath, { recursive: true });
+	return { dirPath, relativeDir };
+}
+
+interface ProcessEntriesOptions<Entry> {
+	target: TargetRef;
+	metadata?: Record<string, unknown>;
+	entryStream: AsyncIterable<Entry>;
+	extractUserId(entry: Entry): number;
+	/** Group role the entry was collected from, for `overlap.json`. */
+	roleOf?(entry: Entry): Roleset | null;
+	onEntryCollected(entry: Entry): Promise<void>;
+	rotectorWriter: WriteStream;
+	failedWriter: WriteStream;
+	checkpointer?: Checkpointer<unknown>;
+	/** Receives a function that pushes every pending lookup to Rotector. */
+	bindFlush?(flush: () => Promise<void>): void;
+}
+
+async function processEntries<Entry>(
+	ctx: ScanContext,
+	{
+		target,
+		metadata,
+		entryStream,
+		extractUserId,
+		roleOf,
+		onEntryCollected,
+		rotectorWriter,
+		failedWriter,
+		checkpointer,
+		bindFlush
+	}: ProcessEntriesOptions<Entry>
+): Promise<ProcessResult> {
+	const { label } = target;
+	const restored = checkpointer?.resumed?.entries;
+	const seenIds = new Set<number>(restored?.seenIds);
+	const pendingLookup: number[] = [...(restored?.pendingLookup ?? [])];
+	const flagBreakdown: Record<string, number> = {
+		...(restored?.flagBreakdown ?? {})
+	};
+	const analytics = restored?.analytics ?? createAnalytics();
+
+	let totalCollected = restored?.totalCollected ?? 0;
+	let uniqueUsers = restored?.uniqueUsers ?? 0;
+	let newlyChecked = restored?.newlyChecked ?? 0;
+	let cacheHits = restored?.cacheHits ?? 0;
+	let failedLookups = restored?.failedLookups ?? 0;
+	let unsafeMatches = restored?.unsafeMatches ?? 0;
+
+	if (restored) {
+		await ctx.log(
+			"verbose",
+			`[${label}] resuming with ${seenIds.size} seen and ${pendingLookup.length} pending user(s)`
+		);
+	}
+
+	checkpointer?.trackEntries(() => ({
+		seenIds: [...seenIds],
+		pendingLookup: [...pendingLookup],
+		totalCollected,
+		uniqueUsers,
+		newlyChecked,
+		cacheHits,
+		failedLookups,
+		unsafeMatches,
+		flagBreakdown: { ...flagBreakdown },
+		analytics
+	}));
+
+	const getMatchedUsers = () =>
+		Object.values(flagBreakdown).reduce((sum, count) => sum + count, 0);
+
+	const emitProgress = () =>
+		ctx.emit({
+			type: "progress",
+			target,
+			progress: {
+				totalCollected,
+				uniqueUsers,
+				matchedUsers: getMatchedUsers(),
+				unsafeMatches,
+				queueSize: pendingLookup.length
+			}
+		});
+
+	const writeStatus = async (status: UserStatus, names?: UserNames) => {
+		const flagLabel = flagTypeToString(status.flagType);
+		flagBreakdown[flagLabel] = (flagBreakdown[flagLabel] ?? 0) + 1;
+		if (status.flagType !== 0) unsafeMatches++;
+		recordStatus(analytics, status);
+
+		const record = createRotectorRecord(
+			ctx.runId,
+			{
+				type: target.type,
+				targetId: target.targetId,
+				label,
+				...(metadata ?? {})
+			},
+			status,
+			names
+		);
+		const written = shouldWriteStatus(ctx.outputFilter, status);
+		if (written) await appendJsonLine(rotectorWriter, record);
+		recordOverlapStatus(ctx.provenance, record);
+		await ctx.emit({ type: "user_status", target, record, written });
+	};
+
+	// Cached users wait in the queue too, so their names can be resolved in
+	// the same batch as everyone else's before any record is written.
+	const flushLookup = async () => {
+		if (!pendingLookup.length) return;
+		const chunk = pendingLookup.splice(0);
+		const statuses = new Map<number, UserStatus>();
+		const toCheck: number[] = [];
+		for (const id of chunk) {
+			const cached = getCachedStatus(ctx, id);
+			if (cached) statuses.set(id, cached);
+			else toCheck.push(id);
+		}
+		let batchHits = statuses.size;
+
+		let lookup: LookupOutcome = { statuses: {}, failedIds: [], errors: [] };
+		if (toCheck.length) {
+			await ctx.log(
+				"verbose",
+				`[${label}] checking ${toCheck.length} user(s) against Rotector`
+			);
+			const { sent, shared, ...outcome } = await ctx.lookup(toCheck);
+			lookup = outcome;
+			newlyChecked += sent;
+			batchHits += shared;
+		}
+		cacheHits += batchHits;
+		for (const id of toCheck) {
+			const status = lookup.statuses[id.toString()];
+			if (status) statuses.set(id, status);
+		}
+		await ctx.emit({
+			type: "batch_checked",
+			target,
+			checked: chunk.length,
+			cacheHits: batchHits,
+			failedIds: lookup.failedIds,
+			errors: lookup.errors
+		});
+
+		const names = await resolveUserNames([...statuses.keys()]);
+		for (const id of chunk) {
+			const status = statuses.get(id);
+			if (status) await writeStatus(status, names.get(id));
+		}
+
+		if (lookup.failedIds.length) {
+			failedLookups += lookup.failedIds.length;
+			for (const id of lookup.failedIds) {
+				await appendLine(failedWriter, id.toString());
+			}
+			await ctx.log(
+				"warn",
+				`[${label}] Rotector lookup failed for ${
+					lookup.failedIds.length
+				} user(s)${
+					lookup.errors.length ? `: ${lookup.errors.join("; ")}` : ""
+				}; they will be retried at the end of the run`
+			);
+		}
+
+		await emitProgress();
+	};
+
+	bindFlush?.(flushLookup);
+
+	for await (const entry of entryStream) {
+		await onEntryCollected(entry);
+		const userId = extractUserId(entry);
+		totalCollected++;
+		recordSighting(ctx.provenance, userId, label, roleOf?.(entry) ?? null);
+
+		const duplicate = seenIds.has(userId);
+		await ctx.emit({ type: "entry_collected", target, userId, duplicate });
+		if (duplicate) {
+			continue;
+		}
+
+		seenIds.add(userId);
+		uniqueUsers++;
+
+		pendingLookup.push(userId);
+		if (pendingLookup.length >= LOOKUP_BATCH_SIZE) {
+			await flushLookup();
+		}
+
+		await emitProgress();
+	}
+
+	await flushLookup();
+	await emitProgress();
+
+	return {
+		totalCollected,
+		uniqueUsers,
+		newlyChecked,
+		cacheHits,
+		failedLookups,
+		flagBreakdown,
+		analytics,
+		unsafeMatches
+	};
+}
+
+function buildIndexPayload(args: {
+	runId: string;
+	target: TargetRef;
+	metadata?: Record<string, unknown>;
+	stats: ProcessResult;
+	outputFilter: OutputFilter | null;
+	files: Record<string, unknown>;
+}): Record<string, unknown> {
+	const { runId, target, metadata, stats, outputFilter, files } = args;
+	const uniqueMatched = Object.values(stats.flagBreakdown).reduce(
+		(sum, count) => sum + count,
+		0
+	);
+
+	return {
+		runId,
+		generatedAt: new Date().toISOString(),
+		source: {
+			...target,
+			...(metadata ?? {})
+		},
+		counts: {
+			totalCollected: stats.totalCollected,
+			uniqueCollected: stats.uniqueUsers,
+			uniqueMatched,
+			newlyChecked: stats.newlyChecked,
+			cacheHits: stats.cacheHits,
+			failedLookups: stats.failedLookups,
+			unsafeMatches: stats.unsafeMatches
+		},
+		flagBreakdown: stats.flagBreakdown,
+		analytics: stats.analytics,
+		outputFilter,
+		files
+	};
+}
+
+/** Report a finished target and hand back its summary for run.json. */
+async function finishTarget(
+	ctx: ScanContext,
+	target: TargetRef,
+	stats: ProcessResult,
+	relativeDir: string
+): Promise<SourceRunSummary> {
+	const summary: SourceRunSummary = {
+		...target,
+		totalUsers: stats.totalCollected,
+		uniqueUsers: stats.uniqueUsers,
+		newlyChecked: stats.newlyChecked,
+		cacheHits: stats.cacheHits,
+		failedLookups: stats.failedLookups,
+		indexFile: join(relativeDir, "index.json"),
+		flagBreakdown: stats.flagBreakdown,
+		analytics: stats.analytics
+	};
+	await ctx.emit({
+		type: "target_finished",
+		target,
+		summary,
+		unsafeMatches: stats.unsafeMatches
+	});
+	return summary;
+}
+
+async function processFriendSource(
+	ctx: ScanContext,
+	friendId: string,
+	crawl: CrawlConfig
+): Promise<SourceRunSummary> {
+	const target: TargetRef = {
+		type: "friends",
+		targetId: friendId,
+		label: `friends:${friendId}`
+	};
+	const { label } = target;
+	const crawling = crawl.depth > 1;
+	const metadata: Record<string, unknown> = crawling
+		? {
+				subjectUserId: friendId,
+				depth: crawl.depth,
+				expand: crawl.expand,
+				maxPerHop: crawl.maxPerHop ?? null
+		  }
+		: { subjectUserId: friendId };
+	const { dirPath, relativeDir } = ensureTargetDir(
+		ctx.runDir,
+		target.type,
+		friendId
+	);
+	const checkpointer = openCheckpointer<FriendGraphPosition>(
+		ctx,
+		dirPath,
+		label
+	);
+	const usersWriter = checkpointer.openWriter("users");
+	const rotectorWriter = checkpointer.openWriter("rotector");
+	const failedWriter = checkpointer.openWriter(FAILED_FILE);
+	const edgesWriter = crawling ? checkpointer.openWriter("edges") : null;
+
+	// Friendships are mutual, so each pair is only written once.
+	const writtenEdges = new Set<string>();
+	const edgeKey = (a: number, b: number) =>
+		a < b ? `${a}:${b}` : `${b}:${a}`;
+	if (edgesWriter && existsSync(join(dirPath, "edges"))) {
+		const lines = readFileSync(join(dirPath, "edges"), "utf8").split("\n");
+		for (const line of lines) {
+			if (!line) continue;
+			const edge = JSON.parse(line) as { from: number; to: number };
+			writtenEdges.add(edgeKey(edge.from, edge.to));
+		}
+	}
+
+	const discoveredPerHop: Record<string, number> = {
+		...((checkpointer.resumed?.extra.discoveredPerHop as
+			| Record<string, number>
+			| undefined) ?? {})
+	};
+	checkpointer.trackExtra(() => ({
+		discoveredPerHop: { ...discoveredPerHop }
+	}));
+
+	let flushPending: () => Promise<void> = async () => {};
+
+	await ctx.emit({
+		type: "target_started",
+		target,
+		resumed: !!checkpointer.resumed
+	});
+
+	const stats = await processEntries<FriendGraphEntry>(ctx, {
+		target,
+		metadata,
+		entryStream: streamFriendGraph(friendId, {
+			depth: crawl.depth,
+			maxPerHop: crawl.maxPerHop,
+			beforeExpand: async (hop) => {
+				await ctx.log(
+					"verbose",
+					`[${label}] hop ${hop} complete, choosing users to expand`
+				);
+				await flushPending();
+			},
+			shouldExpand: (userId) => {
+				if (crawl.expand === "all") return true;
+				const status = ctx.statusCache.get(userId);
+				return !!status && status.flagType !== 0;
+			},
+			resumeFrom: checkpointer.resumed?.position,
+			onPage: (position) => checkpointer.save(position)
+		}),
+		extractUserId: (entry) => entry.userId,
+		onEntryCollected: async (entry) => {
+			if (entry.firstSeen) {
+				discoveredPerHop[entry.hop.toString()] =
+					(discoveredPerHop[entry.hop.toString()] ?? 0) + 1;
+				await appendLine(usersWriter, entry.userId.toString());
+			}
+			if (edgesWriter && entry.from !== null) {
+				const key = edgeKey(entry.from, entry.userId);
+				if (!writtenEdges.has(key)) {
+					writtenEdges.add(key);
+					await appendJsonLine(edgesWriter, {
+						from: entry.from,
+						to: entry.userId,
+						hop: entry.hop
+					});
+				}
+			}
+		},
+		rotectorWriter,
+		failedWriter,
+		checkpointer,
+		bindFlush: (flush) => {
+			flushPending = flush;
+		}
+	});
+
+	await closeWriter(usersWriter);
+	await closeWriter(rotectorWriter);
+	await closeWriter(failedWriter);
+	if (edgesWriter) await closeWriter(edgesWriter);
+	checkpointer.complete();
+
+	const indexPayload = buildIndexPayload({
+		runId: ctx.runId,
+		target,
+		metadata,
+		stats,
+		outputFilter: ctx.outputFilter,
+		files: {
+			index: "index.json",
+			users: "users",
+			rotector: "rotector",
+			failed: FAILED_FILE,
+			...(crawling ? { edges: "edges" } : {})
+		}
+	});
+	if (crawling) {
+		indexPayload.crawl = {
+			discoveredPerHop,
+			edges: writtenEdges.size
+		};
+	}
+
+	writeFileSync(
+		join(dirPath, "index.json"),
+		JSON.stringify(indexPayload, undefined, 2)
+	);
+
+	return finishTarget(ctx, target, stats, relativeDir);
+}
+
+async function processGroupSource(
+	ctx: ScanContext,
+	group: GroupConfig
+): Promise<SourceRunSummary> {
+	const target: TargetRef = {
+		type: "group",
+		targetId: group.id,
+		label: `group:${group.id}`
+	};
+	const { label } = target;
+	const { dirPath, relativeDir } = ensureTargetDir(
+		ctx.runDir,
+		target.type,
+		group.id
+	);
+	const checkpointer = openCheckpointer<GroupStreamPosition>(
+		ctx,
+		dirPath,
+		label
+	);
+
+	// Keep the roleset order of the interrupted run so its cursor stays valid.
+	const rolesPath = join(dirPath, "roles.json");
+	let selection: RolesetSelection;
+	if (checkpointer.resumed && existsSync(rolesPath)) {
+		const saved = JSON.parse(readFileSync(rolesPath, "utf8")) as RolesFile;
+		selection = {
+			selected: saved.roles,
+			skipped: saved.skippedRoles ?? [],
+			caps: saved.roleCaps ?? {},
+			unmatched: []
+		};
+	} else {
+		selection = selectRolesets(await getGroupRoles(group.id), group.roles);
+	}
+	for (const selector of selection.unmatched) {
+		await ctx.log(
+			"warn",
+			`[${label}] role selector "${selector}" matched no role`
+		);
+	}
+	if (!selection.selected.length)
+		throw new Error(`[${label}] role selection skipped every role`);
+
+	const roles = selection.selected;
+	writeFileSync(
+		rolesPath,
+		JSON.stringify(
+			{
+				runId: ctx.runId,
+				generatedAt: new Date().toISOString(),
+				groupId: group.id,
+				selection: group.roles ?? null,
+				roles,
+				skippedRoles: selection.skipped,
+				roleCaps: selection.caps
+			} satisfies RolesFile,
+			undefined,
+			2
+		)
+	);
+
+	const roleWriters = new Map<number, WriteStream>();
+	const roleCounts: Record<string, number> = {
+		...((checkpointer.resumed?.extra.roleCounts as
+			| Record<string, number>
+			| undefined) ?? {})
+	};
+	checkpointer.trackExtra(() => ({ roleCounts: { ...roleCounts } }));
+
+	const createRoleWriters = (rolesets: Roleset[]) => {
+		for (const role of rolesets) {
+			roleWriters.set(role.id, checkpointer.openWriter(`${role.id}`));
+		}
+	};
+
+	createRoleWriters(roles);
+
+	const rotectorWriter = checkpointer.openWriter("rotector");
+	const failedWriter = checkpointer.openWriter(FAILED_FILE);
+
+	await ctx.emit({
+		type: "target_started",
+		target,
+		resumed: !!checkpointer.resumed
+	});
+
+	const metadata = { groupId: group.id, cap: group.cap ?? null };
+	const stats = await processEntries<GroupMemberEntry>(ctx, {
+		target,
+		metadata,
+		entryStream: streamGroupMembers(group.id, group.cap, roles, {
+			roleCaps: selection.caps,
+			resumeFrom: checkpointer.resumed?.position,
+			onPage: (position) => checkpointer.save(position)
+		}),
+		extractUserId: (entry) => entry.userId,
+		roleOf: (entry) =>
+			roles.find((role) => role.id === entry.rolesetId) ?? null,
+		onEntryCollected: async (entry) => {
+			const writer = roleWriters.get(entry.rolesetId);
+			if (!writer)
+				throw new Error(`Missing writer for roleset ${entry.rolesetId}`);
+			roleCounts[entry.rolesetId.toString()] =
+				(roleCounts[entry.rolesetId.toString()] ?? 0) + 1;
+			rememberUserNames(entry.userId, entry);
+			await appendLine(writer, formatRoleLogLine(entry.userId, entry));
+		},
+		rotectorWriter,
+		failedWriter,
+		checkpointer
+	});
+
+	await Promise.all([...roleWriters.values()].map((w) => closeWriter(w)));
+	await closeWriter(rotectorWriter);
+	await closeWriter(failedWriter);
+	checkpointer.complete();
+
+	const indexPayload = buildIndexPayload({
+		runId: ctx.runId,
+		target,
+		metadata,
+		stats,
+		outputFilter: ctx.outputFilter,
+		files: {
+			index: "index.json",
+			rotector: "rotector",
+			failed: FAILED_FILE,
+			roles: "roles.json",
+			roleFiles: Object.keys(roleCounts).length
+				? roleCounts
+				: roles.reduce<Record<string, number>>((acc, role) => {
+						acc[role.id.toString()] = 0;
+						return acc;
+				  }, {})
+		}
+	});
+	indexPayload.roleSelection = {
+		selection: group.roles ?? null,
+		selectedRoles: roles.map((role) => role.id),
+		skippedRoles: selection.skipped.map(({ id, name, rank, reason }) => ({
+			id,
+			name,
+			rank,
+			reason
+		})),
+		roleCaps: selection.caps
+	};
+
+	writeFileSync(
+		join(dirPath, "index.json"),
+		JSON.stringify(indexPayload, undefined, 2)
+	);
+
+	return finishTarget(ctx, target, stats, relativeDir);
+}
+
+async function processListSource(
+	ctx: ScanContext,
+	list: UserListConfig
+): Promise<SourceRunSummary> {
+	const target: TargetRef = {
+		type: "list",
+		targetId: list.name,
+		label: `list:${list.name}`
+	};
+	const { label } = target;
+	const metadata = {
+		file: list.path === STDIN_PATH ? "stdin" : list.path,
+		format: isCsvList(list) ? "csv" : "text",
+		column: list.column ?? null
+	};
+	const { dirPath, relativeDir } = ensureTargetDir(
+		ctx.runDir,
+		target.type,
+		list.name
+	);
+	const checkpointer = openCheckpointer<UserListPosition>(
+		ctx,
+		dirPath,
+		label
+	);
+	const usersWriter = checkpointer.openWriter("users");
+	const rotectorWriter = checkpointer.openWriter("rotector");
+	const failedWriter = checkpointer.openWriter(FAILED_FILE);
+
+	let invalidLines = Number(checkpointer.resumed?.extra.invalidLines ?? 0);
+	checkpointer.trackExtra(() => ({ invalidLines }));
+
+	await ctx.emit({
+		type: "target_started",
+		target,
+		resumed: !!checkpointer.resumed
+	});
+
+	const stats = await processEntries<UserListEntry>(ctx, {
+		target,
+		metadata,
+		entryStream: streamUserList(list, {
+			resumeFrom: checkpointer.resumed?.position,
+			onPage: (position) => checkpointer.save(position),
+			onInvalid: (line, text) => {
+				invalidLines++;
+				void ctx.log(
+					"verbose",
+					`[${label}] line ${line} has no user ID: ${text.slice(0, 80)}`
+				);
+			}
+		}),
+		extractUserId: (entry) => entry.userId,
+		onEntryCollected: async (entry) => {
+			await appendLine(usersWriter, entry.userId.toString());
+		},
+		rotectorWriter,
+		failedWriter,
+		checkpointer
+	});
+
+	if (invalidLines) {
+		await ctx.log(
+			"warn",
+			`[${label}] skipped ${invalidLines} line(s) without a user ID`
+		);
+	}
+
+	await closeWriter(usersWriter);
+	await closeWriter(rotectorWriter);
+	await closeWriter(failedWriter);
+	checkpointer.complete();
+
+	const indexPayload = buildIndexPayload({
+		runId: ctx.runId,
+		target,
+		metadata,
+		stats,
+		outputFilter: ctx.outputFilter,
+		files: {
+			index: "index.json",
+			users: "users",
+			rotector: "rotector",
+			failed: FAILED_FILE
+		}
+	});
+	(indexPayload.counts as Record<string, number>).invalidLines = invalidLines;
+
+	writeFileSync(
+		join(dirPath, "index.json"),
+		JSON.stringify(indexPayload, undefined, 2)
+	);
+
+	return finishTarget(ctx, target, stats, relativeDir);
+}
+
+async function processFollowSource(
+	ctx: ScanContext,
+	direction: FollowDirection,
+	userId: string
+): Promise<SourceRunSummary> {
+	const target: TargetRef = {
+		type: direction,
+		targetId: userId,
+		label: `${direction}:${userId}`
+	};
+	const { label } = target;
+	const metadata = { subjectUserId: userId };
+	const { dirPath, relativeDir } = ensureTargetDir(
+		ctx.runDir,
+		target.type,
+		userId
+	);
+	const checkpointer = openCheckpointer<FriendStreamPosition>(
+		ctx,
+		dirPath,
+		label
+	);
+	const usersWriter = checkpointer.openWriter("users");
+	const rotectorWriter = checkpointer.openWriter("rotector");
+	const failedWriter = checkpointer.openWriter(FAILED_FILE);
+
+	await ctx.emit({
+		type: "target_started",
+		target,
+		resumed: !!checkpointer.resumed
+	});
+
+	const stats = await processEntries<number>(ctx, {
+		target,
+		metadata,
+		entryStream: streamFollows(userId, direction, {
+			resumeFrom: checkpointer.resumed?.position,
+			onPage: (position) => checkpointer.save(position)
+		}),
+		extractUserId: (entry) => entry,
+		onEntryCollected: async (entry) => {
+			await appendLine(usersWriter, entry.toString());
+		},
+		rotectorWriter,
+		failedWriter,
+		checkpointer
+	});
+
+	await closeWriter(usersWriter);
+	await closeWriter(rotectorWriter);
+	await closeWriter(failedWriter);
+	checkpointer.complete();
+
+	const indexPayload = buildIndexPayload({
+		runId: ctx.runId,
+		target,
+		metadata,
+		stats,
+		outputFilter: ctx.outputFilter,
+		files: {
+			index: "index.json",
+			users: "users",
+			rotector: "rotector",
+			failed: FAILED_FILE
+		}
+	});
+
+	writeFileSync(
+		join(dirPath, "index.json"),
+		JSON.stringify(indexPayload, undefined, 2)
+	);
+
+	return finishTarget(ctx, target, stats, relativeDir);
+}
+
+async function runScan(
+	runState: RunState<RunTargets, SourceRunSummary>,
+	ctx: ScanContext
+): Promise<ScanResult> {
+	const { runId, runDir } = ctx;
+	mkdirSync(runDir, { recursive: true });
+	writeRunState(runDir, runState);
+	const httpBefore = getHttpStats();
+
+	await ctx.emit({
+		type: "run_started",
+		runId,
+		runDir,
+		resumed: ctx.resume,
+		completedTargets: Object.keys(runState.completed)
+	});
+
+	const { targets } = runState;
+	const jobs: {
+		label: string;
+		dir: string;
+		run(): Promise<SourceRunSummary>;
+	}[] = [
+		...targets.friendIds.map((friendId) => ({
+			label: `friends:${friendId}`,
+			dir: `friends-${friendId}`,
+			run: () => processFriendSource(ctx, friendId, targets.crawl)
+		})),
+		...targets.groups.map((group) => ({
+			label: `group:${group.id}`,
+			dir: `group-${group.id}`,
+			run: async () => {
+				await ctx.log(
+					"verbose",
+					`[group:${group.id}] streaming members${
+						group.cap ? ` (cap ${group.cap})` : ""
+					}...`
+				);
+				return processGroupSource(ctx, group);
+			}
+		})),
+		...(["followers", "followings"] as const).flatMap((direction) =>
+			(targets[direction] ?? []).map((userId) => ({
+				label: `${direction}:${userId}`,
+				dir: `${direction}-${userId}`,
+				run: () => processFollowSource(ctx, direction, userId)
+			}))
+		),
+		...(targets.lists ?? []).map((list) => ({
+			label: `list:${list.name}`,
+			dir: `list-${list.name}`,
+			run: () => processListSource(ctx, list)
+		}))
+	];
+
+	if (ctx.resume) {
+		for (const job of jobs) {
+			await seedProvenance(
+				ctx.provenance,
+				job.label,
+				join(runDir, job.dir)
+			);
+		}
+	}
+
+	// Summaries keep the target order whichever target finishes first.
+	const summaries: SourceRunSummary[] = [];
+	const pending: number[] = [];
+	jobs.forEach((job, index) => {
+		const done = runState.completed[job.label];
+		if (done) summaries[index] = done;
+		else pending.push(index);
+	});
+
+	// After a target fails, running targets finish but no new ones start.
+	let failure = null as { error: unknown } | null;
+	const worker = async () => {
+		while (!failure && pending.length) {
+			const index = pending.shift()!;
+			try {
+				const summary = await jobs[index]!.run();
+				summaries[index] = summary;
+				runState.completed[summary.label] = summary;
+				writeRunState(runDir, runState);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+	};
+	await Promise.all(
+		Array.from(
+			{ length: Math.min(ctx.concurrency, pending.length) },
+			worker
+		)
+	);
+	if (failure) throw failure.error;
+
+	// Deferred second chance for batches Rotector failed on during the scan.
+	const retries = await retryFailedLookups(runDir, summaries, {
+		onResolved: (statuses) => persistCache(ctx, statuses),
+		onRecord: (source, record, written) => {
+			recordOverlapStatus(ctx.provenance, record);
+			return ctx.emit({
+				type: "user_status",
+				target: {
+					type: source.type,
+					targetId: source.targetId,
+					label: source.label
+				},
+				record,
+				written
+			});
+		},
+		log: (message) => void ctx.log("verbose", message)
+	});
+	for (const retry of retries) {
+		await ctx.log(
+			"info",
+			`[${retry.label}] retry recovered ${retry.resolved}/${retry.retried} failed lookup(s)`
+		);
+	}
+
+	const overlap = buildOverlap(
+		ctx.provenance,
+		runId,
+		summaries.map((s) => s.label)
+	);
+	writeFileSync(
+		join(runDir, OVERLAP_FILE),
+		JSON.stringify(overlap, undefined, 2)
+	);
+	if (overlap.users.length) {
+		await ctx.log(
+			"info",
+			`${overlap.users.length} flagged user(s) appear in more than one target; see ${OVERLAP_FILE}`
+		);
+	}
+
+	const aggregateBreakdown = sumFlagBreakdowns(summaries);
+	const failedLookups = summaries.reduce(
+		(acc, s) => acc + (s.failedLookups ?? 0),
+		0
+	);
+	const { diskCache } = ctx;
+	const http = diffHttpStats(getHttpStats(), httpBefore);
+	for (const [host, stats] of Object.entries(http)) {
+		await ctx.log(
+			"verbose",
+			`[http] ${host}: ${stats.requests} request(s), ${stats.retries} retried, ${stats.throttled} throttled, ${stats.timeouts} timed out`
+		);
+	}
+
+	const summaryPayload: RunSummaryFile = {
+		runId,
+		generatedAt: new Date().toISOString(),
+		runDirectory: runDir,
+		stats: {
+			sourcesAnalyzed: summaries.length,
+			uniqueUsersMatched: ctx.statusCache.size,
+			totalIdsCollected: summaries.reduce(
+				(acc, s) => acc + s.totalUsers,
+				0
+			),
+			failedLookups,
+			flaggedInMultipleTargets: overlap.users.length
+		},
+		cache: diskCache
+			? {
+					file: diskCache.path,
+					maxAgeMs: diskCache.maxAgeMs,
+					...diskCache.stats()
+			  }
+			: null,
+		http,
+		flagBreakdown: aggregateBreakdown,
+		analytics: mergeAnalytics(summaries.map((s) => s.analytics)),
+		outputFilter: runState.targets.outputFilter ?? null,
+		sources: summaries
+	};
+
+	const summaryFile = join(runDir, "summary.json");
+	writeFileSync(summaryFile, JSON.stringify(summaryPayload, undefined, 2));
+	diskCache?.compact();
+
+	await ctx.emit({
+		type: "run_finished",
+		runId,
+		runDir,
+		summary: summaryPayload
+	});
+
+	return { runId, runDir, summaries, summary: summaryPayload };
+}
+
+/** Open the run to scan: a fresh one under `outputDir`, or `resumeDir`. */
+function prepareRun(options: ScanOptions): {
+	runDir: string;
+	runState: RunState<RunTargets, SourceRunSummary>;
+} {
+	if (options.resumeDir) {
+		const runDir = resolve(options.resumeDir);
+		if (existsSync(join(runDir, "summary.json")))
+			throw new Error(
+				`Run ${runDir} already completed; nothing to resume`
+			);
+		return {
+			runDir,
+			runState: readRunState<RunTargets, SourceRunSummary>(runDir)
+		};
+	}
+
+	if (!options.outputDir)
+		throw new Error("scanTargets needs an outputDir or a resumeDir");
+	const targets = options.targets ?? {};
+	const runTargets: RunTargets = {
+		friendIds: targets.friendIds ?? [],
+		groups: targets.groups ?? [],
+		lists: targets.lists ?? [],
+		followers: targets.followers ?? [],
+		followings: targets.followings ?? [],
+		crawl: { depth: 1, expand: "flagged", ...targets.crawl },
+		outputFilter: targets.outputFilter ?? null
+	};
+	if (
+		!runTargets.friendIds.length &&
+		!runTargets.groups.length &&
+		!runTargets.lists!.length &&
+		!runTargets.followers!.length &&
+		!runTargets.followings!.length
+	)
+		throw new Error(
+			"scanTargets needs at least one friend, group, list, followers or followings target"
+		);
+
+	const runId = options.runId ?? formatTimestamp();
+	return {
+		runDir: join(resolve(options.outputDir), runId),
+		runState: createRunState<RunTargets, SourceRunSummary>(
+			runId,
+			runTargets
+		)
+	};
+}
+
+/**
+ * Make sure the targets can be scanned with the configured cookies. Friend
+ * and follow lists need a signed-in cookie; group roles, group members and
+ * user lists are public and also work with cookies turned off.
+ */
+async function checkCookies(targets: RunTargets): Promise<CookieAccount[]> {
+	if (!cookiesDisabled()) return validateCookies();
+	if (
+		targets.friendIds.length ||
+		targets.followers?.length ||
+		targets.followings?.length
+	)
+		throw new Error(
+			"Friend, followers and followings targets need a .ROBLOSECURITY cookie; only group and list targets can be scanned without one"
+		);
+	return [];
+}
+
+interface QueuedEvent {
+	event: ScanEvent;
+	delivered(): void;
+	dropped(err: Error): void;
+}
+
+/**
+ * Hands events from the scan to the consumer one at a time. `push` settles
+ * once the consumer asks for the next event, so the scan never runs ahead
+ * of a slow consumer by more than one event.
+ */
+function createEventChannel() {
+	const queue: QueuedEvent[] = [];
+	let current: QueuedEvent | null = null;
+	let wake: (() => void) | null = null;
+	let closed = false;
+	let cancelled = false;
+
+	const notify = () => {
+		wake?.();
+		wake = null;
+	};
+
+	return {
+		push(event: ScanEvent): Promise<void> {
+			if (cancelled) return Promise.reject(new Error("Scan cancelled"));
+			return new Promise((resolve, reject) => {
+				queue.push({ event, delivered: resolve, dropped: reject });
+				notify();
+			});
+		},
+		close() {
+			closed = true;
+			notify();
+		},
+		cancel() {
+			cancelled = true;
+			const error = new Error("Scan cancelled");
+			current?.dropped(error);
+			for (const item of queue.splice(0)) item.dropped(error);
+		},
+		async *drain(): AsyncGenerator<ScanEvent> {
+			for (;;) {
+				current = queue.shift() ?? null;
+				if (current) {
+					yield current.event;
+					current.delivered();
+					continue;
+				}
+				if (closed) return;
+				await new Promise<void>((resolve) => {
+					wake = resolve;
+				});
+			}
+		}
+	};
+}
+
+/**
+ * Scan the given targets, yielding progress events as they happen and
+ * returning the run's summary once it is written. Everything the CLI writes
+ * to the run folder is written here too, so the run can be resumed, diffed
+ * or retried like any other. Stopping early (e.g. `break` in `for await`)
+ * cancels the scan and leaves its checkpoints for `resumeDir`.
+ */
+export async function* scanTargets(
+	options: ScanOptions = {}
+): AsyncGenerator<ScanEvent, ScanResult, undefined> {
+	const concurrency = options.concurrency ?? 1;
+	if (!Number.isInteger(concurrency) || concurrency < 1)
+		throw new Error("concurrency must be a positive integer");
+
+	const { runDir, runState } = prepareRun(options);
+	const channel = createEventChannel();
+	const sinks = options.sinks ?? [];
+
+	// Sinks and the consumer see events in the order they were emitted, even
+	// when an emit is not awaited.
+	let delivery: Promise<void> = Promise.resolve();
+	const emit = (event: ScanEvent) => {
+		delivery = delivery.then(async () => {
+			for (const sink of sinks) await sink.handle(event);
+			await channel.push(event);
+		});
+		delivery.catch(() => {});
+		return delivery;
+	};
+
+	const ctx: ScanContext = {
+		runId: runState.runId,
+		runDir,
+		resume: !!options.resumeDir,
+		outputFilter: runState.targets.outputFilter ?? null,
+		statusCache: new Map(),
+		diskCache: options.cache ?? null,
+		lookup: createSharedLookup((statuses) => persistCache(ctx, statuses)),
+		concurrency,
+		provenance: createProvenance(),
+		checkpointers: [],
+		emit,
+		log: (level, message) => emit({ type: "log", level, message })
+	};
+
+	// Retries and cookie warnings of the HTTP client arrive as log events,
+	// so the consumer decides where they are printed.
+	const restoreWarnings = setHttpWarningHandler((message) => {
+		void ctx.log("warn", message);
+	});
+	let accounts: CookieAccount[];
+	try {
+		accounts = await checkCookies(runState.targets);
+	} catch (err) {
+		restoreWarnings();
+		throw err;
+	}
+	for (const account of accounts) {
+		ctx.log(
+			"verbose",
+			`[cookies] ${account.label} signs in as ${account.username} (${account.userId})`
+		);
+	}
+
+	const task = runScan(runState, ctx).finally(restoreWarnings);
+	task.then(channel.close, channel.close);
+
+	let finished = false;
+	try {
+		yield* channel.drain();
+		const result = await task;
+		finished = true;
+		return result;
+	} finally {
+		if (!finished) {
+			channel.cancel();
+			await task.catch(() => {});
+			await Promise.allSettled(
+				ctx.checkpointers.map((checkpointer) =>
+					checkpointer.closeWriters()
+				)
+			);
+		}
+	}
+}
@@ -0,0 +1,637 @@
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import process from "node:process";
+import { parseFlagTypes } from "./outputFilter";
+import {
+	loadRun,
+	readLatestStatuses,
+	readRoleMembers,
+	readRotectorRecords,
+	runIdOf,
+	type LoadedRun,
+	type LoadedTarget,
+	type RotectorRecord
+} from "./runFiles";
+import { toReportUser, type ReportUser } from "./runReport";
+
+export const DEFAULT_SERVE_PORT = 8787;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+/** Parsed `rotector` streams kept between requests, least recently used first out. */
+const MAX_CACHED_TARGETS = 16;
+
+/** Thrown by route handlers; turned into a JSON error response. */
+class RequestError extends Error {
+	constructor(readonly status: number, message: string) {
+		super(message);
+	}
+}
+
+interface IndexedRun {
+	/** Folder name under the output directory, used in every route. */
+	key: string;
+	summaryMtime: number;
+	run: LoadedRun;
+}
+
+interface IndexedTarget {
+	stamp: string;
+	users: ReportUser[];
+}
+
+export interface RunListItem {
+	key: string;
+	runId: string;
+	generatedAt: string;
+	targets: string[];
+	stats: Record<string, unknown>;
+	flagBreakdown: Record<string, number>;
+}
+
+export interface UserHistoryEntry extends ReportUser {
+	run: string;
+	runGeneratedAt: string;
+	targetKey: string;
+}
+
+export interface FlaggedQuery {
+	target?: string | null;
+	flagTypes?: string[] | null;
+	minConfidence?: number | null;
+	reason?: string | null;
+	search?: string | null;
+	page: number;
+	pageSize: number;
+}
+
+function targetKeyOf(target: LoadedTarget): string {
+	return basename(target.dirPath);
+}
+
+/**
+ * Finished runs under an output directory. The directory is re-read on every
+ * request, but runs and recently used `rotector` streams are only parsed
+ * again when their files change, so new scans show up without restarting
+ * the server.
+ */
+export function createResultsIndex(outputDir: string) {
+	const runs = new Map<string, IndexedRun>();
+	const targets = new Map<string, IndexedTarget>();
+
+	function refresh(): IndexedRun[] {
+		const seen = new Set<string>();
+		for (const entry of readdirSync(outputDir, { withFileTypes: true })) {
+			if (!entry.isDirectory()) continue;
+			const summaryPath = join(outputDir, entry.name, "summary.json");
+			if (!existsSync(summaryPath)) continue;
+			seen.add(entry.name);
+
+			const summaryMtime = statSync(summaryPath).mtimeMs;
+			if (runs.get(entry.name)?.summaryMtime === summaryMtime) continue;
+			try {
+				runs.set(entry.name, {
+					key: entry.name,
+					summaryMtime,
+					run: loadRun(summaryPath)
+				});
+			} catch (err) {
+				console.warn(
+					`[serve] skipping ${entry.name}: ${(err as Error).message}`
+				);
+			}
+		}
+		for (const key of runs.keys()) {
+			if (!seen.has(key)) runs.delete(key);
+		}
+		return [...runs.values()].sort((a, b) =>
+			b.run.summary.generatedAt.localeCompare(a.run.summary.generatedAt)
+		);
+	}
+
+	function getRun(key: string): IndexedRun {
+		refresh();
+		const run = runs.get(key);
+		if (!run) throw new RequestError(404, `No finished run named ${key}`);
+		return run;
+	}
+
+	function getTarget(run: IndexedRun, key: string): LoadedTarget {
+		const target = run.run.targets.find(
+			(t) => targetKeyOf(t) === key || t.summary.label === key
+		);
+		if (!target)
+			throw new RequestError(404, `Run ${run.key} has no target ${key}`);
+		return target;
+	}
+
+	/** Latest status of every user written to a target's `rotector`. */
+	async function readTargetUsers(
+		target: LoadedTarget
+	): Promise<ReportUser[]> {
+		const rotectorPath = join(target.dirPath, "rotector");
+		const stat = existsSync(rotectorPath) ? statSync(rotectorPath) : null;
+		const stamp = stat ? `${stat.mtimeMs}:${stat.size}` : "missing";
+		const cached = targets.get(target.dirPath);
+		targets.delete(target.dirPath);
+		if (cached?.stamp === stamp) {
+			targets.set(target.dirPath, cached);
+			return cached.users;
+		}
+
+		const roles =
+			target.summary.type === "group"
+				? readRoleMembers(target.dirPath)
+				: new Map();
+		const users = [...(await readLatestStatuses(target.dirPath))].map(
+			([userId, record]) =>
+				toReportUser(
+					target.summary.label,
+					record,
+					roles.get(userId)?.name ?? null
+				)
+		);
+		targets.set(target.dirPath, { stamp, users });
+		for (const dirPath of targets.keys()) {
+			if (targets.size <= MAX_CACHED_TARGETS) break;
+			targets.delete(dirPath);
+		}
+		return users;
+	}
+
+	function listRuns(): RunListItem[] {
+		return refresh().map(({ key, run }) => ({
+			key,
+			runId: runIdOf(run),
+			generatedAt: run.summary.generatedAt,
+			targets: run.targets.map(targetKeyOf),
+			stats: run.summary.stats,
+			flagBreakdown: run.summary.flagBreakdown
+		}));
+	}
+
+	function runSummary(key: string) {
+		const { run } = getRun(key);
+		return {
+			key,
+			targets: run.targets.map((target) => ({
+				key: targetKeyOf(target),
+				label: target.summary.label,
+				type: target.summary.type,
+				targetId: target.summary.targetId
+			})),
+			summary: run.summary
+		};
+	}
+
+	function targetIndex(runKey: string, targetKey: string) {
+		const target = getTarget(getRun(runKey), targetKey);
+		if (!target.index)
+			throw new RequestError(404, `${targetKey} has no index.json`);
+		return target.index;
+	}
+
+	/**
+	 * Flagged users of a run, filtered and sliced into one page. Only the
+	 * matches up to the end of the page are kept, highest confidence first.
+	 */
+	async function flaggedUsers(runKey: string, query: FlaggedQuery) {
+		const run = getRun(runKey);
+		const selected = query.target
+			? [getTarget(run, query.target)]
+			: run.run.targets;
+		const reason = query.reason?.toLowerCase();
+		const search = query.search?.toLowerCase();
+
+		const start = (query.page - 1) * query.pageSize;
+		const keep = start + query.pageSize;
+		const matches: ReportUser[] = [];
+		let total = 0;
+		for (const target of selected) {
+			for (const user of await readTargetUsers(target)) {
+				if (
+					query.flagTypes
+						? !query.flagTypes.includes(user.flagLabel)
+						: user.flagType === 0
+				)
+					continue;
+				if (
+					query.minConfidence != null &&
+					(user.confidence ?? -1) < query.minConfidence
+				)
+					continue;
+				if (
+					reason &&
+					!user.reasons.some((r) => r.name.toLowerCase() === reason)
+				)
+					continue;
+				if (
+					search &&
+					![user.userId, user.username, user.displayName]
+						.join(" ")
+						.toLowerCase()
+						.includes(search)
+				)
+					continue;
+				total++;
+				insertByConfidence(matches, user, keep);
+			}
+		}
+
+		return {
+			total,
+			page: query.page,
+			pageSize: query.pageSize,
+			pages: Math.max(1, Math.ceil(total / query.pageSize)),
+			users: matches.slice(start, start + query.pageSize)
+		};
+	}
+
+	/**
+	 * Every status recorded for a user, oldest run first. `user` is a user ID
+	 * or, case-insensitively, a username. The `rotector` streams are read
+	 * line by line and only the matching records are kept, so this does not
+	 * go through the target cache.
+	 */
+	async function userHistory(user: string): Promise<UserHistoryEntry[]> {
+		const userId = /^\d+$/.test(user) ? Number(user) : null;
+		const username = user.toLowerCase();
+		const history: UserHistoryEntry[] = [];
+
+		for (const { key, run } of refresh().reverse()) {
+			for (const target of run.targets) {
+				// Latest record per matching user, as in readLatestStatuses.
+				const latest = new Map<number, RotectorRecord>();
+				for await (const record of readRotectorRecords(
+					target.dirPath
+				)) {
+					if (
+						userId !== null
+							? record.user.id !== userId
+							: record.user.username?.toLowerCase() !== username
+					)
+						continue;
+					latest.set(record.user.id, record);
+				}
+				if (!latest.size) continue;
+
+				const roles =
+					target.summary.type === "group"
+						? readRoleMembers(target.dirPath)
+						: new Map();
+				for (const [id, record] of latest) {
+					history.push({
+						...toReportUser(
+							target.summary.label,
+							record,
+							roles.get(id)?.name ?? null
+						),
+						run: key,
+						runGeneratedAt: run.summary.generatedAt,
+						targetKey: targetKeyOf(target)
+					});
+				}
+			}
+		}
+		return history;
+	}
+
+	return { listRuns, runSummary, targetIndex, flaggedUsers, userHistory };
+}
+
+export type ResultsIndex = ReturnType<typeof createResultsIndex>;
+
+/**
+ * Insert `user` into `list`, kept sorted by descending confidence, and drop
+ * whatever falls past `limit`. Equal confidences keep their arrival order.
+ */
+function insertByConfidence(
+	list: ReportUser[],
+	user: ReportUser,
+	limit: number
+) {
+	const confidence = user.confidence ?? -1;
+	let low = 0;
+	let high = list.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if ((list[mid]!.confidence ?? -1) >= confidence) low = mid + 1;
+		else high = mid;
+	}
+	if (low >= limit) return;
+	list.splice(low, 0, user);
+	if (list.length > limit) list.pop();
+}
+
+function parsePositiveInt(
+	value: string | null,
+	name: string,
+	fallback: number
+): number {
+	if (value === null || value === "") return fallback;
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 1)
+		throw new RequestError(400, `${name} must be a positive integer`);
+	return parsed;
+}
+
+/** Read the `flagged` route's query string. */
+function parseFlaggedQuery(params: URLSearchParams): FlaggedQuery {
+	let flagTypes: string[] | null = null;
+	const flag = params.get("flag");
+	if (flag) {
+		try {
+			flagTypes = parseFlagTypes(flag, "flag");
+		} catch (err) {
+			throw new RequestError(400, (err as Error).message);
+		}
+	}
+
+	const rawConfidence = params.get("minConfidence");
+	const minConfidence = rawConfidence ? Number(rawConfidence) : null;
+	if (
+		minConfidence !== null &&
+		(Number.isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1)
+	)
+		throw new RequestError(400, "minConfidence must be between 0 and 1");
+
+	return {
+		target: params.get("target"),
+		flagTypes,
+		minConfidence,
+		reason: params.get("reason"),
+		search: params.get("q"),
+		page: parsePositiveInt(params.get("page"), "page", 1),
+		pageSize: Math.min(
+			MAX_PAGE_SIZE,
+			parsePositiveInt(
+				params.get("pageSize"),
+				"pageSize",
+				DEFAULT_PAGE_SIZE
+			)
+		)
+	};
+}
+
+/** Wrap a route so thrown errors become JSON error responses. */
+function jsonRoute<Req extends Request>(
+	handler: (req: Req) => unknown | Promise<unknown>
+) {
+	return async (req: Req): Promise<Response> => {
+		try {
+			return Response.json(await handler(req));
+		} catch (err) {
+			const status = err instanceof RequestError ? err.status : 500;
+			return Response.json({ error: (err as Error).message }, { status });
+		}
+	};
+}
+
+// Runs in the browser: talks to the JSON routes above.
+const DASHBOARD_SCRIPT = `
+const $ = (id) => document.getElementById(id);
+const state = { run: null, page: 1 };
+
+async function api(path) {
+	const res = await fetch(path);
+	const body = await res.json();
+	if (!res.ok) throw new Error(body.error || res.statusText);
+	return body;
+}
+
+function cell(row, text) {
+	const td = row.insertCell();
+	td.textContent = text;
+	return td;
+}
+
+function userLink(u) {
+	const link = document.createElement("a");
+	link.href = "#";
+	link.textContent = u.username ? u.displayName + " (@" + u.username + ")" : String(u.userId);
+	link.addEventListener("click", (e) => {
+		e.preventDefault();
+		$("user").value = String(u.userId);
+		loadHistory();
+	});
+	return link;
+}
+
+function showError(err) {
+	$("error").textContent = err ? err.message : "";
+}
+
+async function loadRuns() {
+	const runs = await api("/api/runs");
+	$("runs").replaceChildren(...runs.map((r) =>
+		new Option(r.key + " (" + r.targets.length + " target(s))", r.key)));
+	if (runs.length) await selectRun(runs[0].key);
+	else $("summary").textContent = "No finished runs yet.";
+}
+
+async function selectRun(key) {
+	state.run = key;
+	state.page = 1;
+	const { summary, targets } = await api("/api/runs/" + encodeURIComponent(key));
+	$("summary").textContent = Object.entries(summary.flagBreakdown)
+		.map(([label, count]) => label + ": " + count).join(" | ") || "No users checked.";
+	$("target").replaceChildren(new Option("All targets", ""),
+		...targets.map((t) => new Option(t.label, t.key)));
+	await loadFlagged();
+}
+
+async function loadFlagged() {
+	const params = new URLSearchParams({ page: String(state.page) });
+	for (const [name, id] of [["target", "target"], ["flag", "flag"], ["minConfidence", "min-confidence"], ["q", "search"]]) {
+		if ($(id).value.trim()) params.set(name, $(id).value.trim());
+	}
+	try {
+		const result = await api("/api/runs/" + encodeURIComponent(state.run) + "/flagged?" + params);
+		showError(null);
+		const body = $("flagged").tBodies[0];
+		body.replaceChildren();
+		for (const u of result.users) {
+			const row = body.insertRow();
+			row.insertCell().append(userLink(u));
+			cell(row, u.target);
+			cell(row, u.role ?? "");
+			cell(row, u.flagLabel).className = "flag flag-" + u.flagLabel;
+			cell(row, u.confidence === null ? "" : u.confidence.toFixed(2));
+			cell(row, u.reasons.map((r) => r.name).join(", "));
+		}
+		$("page").textContent = "Page " + result.page + " of " + result.pages + " (" + result.total + " user(s))";
+		$("prev").disabled = result.page <= 1;
+		$("next").disabled = result.page >= result.pages;
+	} catch (err) {
+		showError(err);
+	}
+}
+
+async function loadHistory() {
+	const user = $("user").value.trim();
+	if (!user) return;
+	try {
+		const history = await api("/api/users/" + encodeURIComponent(user));
+		showError(null);
+		const body = $("history").tBodies[0];
+		body.replaceChildren();
+		for (const h of history) {
+			const row = body.insertRow();
+			cell(row, h.run);
+			cell(row, h.target);
+			cell(row, h.flagLabel).className = "flag flag-" + h.flagLabel;
+			cell(row, h.confidence === null ? "" : h.confidence.toFixed(2));
+			cell(row, h.reasons.map((r) => r.name).join(", "));
+		}
+		$("history-note").textContent = history.length ? "" : "No records for " + user;
+	} catch (err) {
+		showError(err);
+	}
+}
+
+$("runs").addEventListener("change", () => selectRun($("runs").value).catch(showError));
+for (const id of ["target", "flag", "min-confidence", "search"]) {
+	$(id).addEventListener("change", () => { state.page = 1; loadFlagged(); });
+}
+$("prev").addEventListener("click", () => { state.page--; loadFlagged(); });
+$("next").addEventListener("click", () => { state.page++; loadFlagged(); });
+$("user-form").addEventListener("submit", (e) => { e.preventDefault(); loadHistory(); });
+loadRuns().catch(showError);
+`;
+
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>robloxHELL dashboard</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1d1d1f; background: #fafafa; }
+.muted { color: #6b6b6b; font-size: 0.9em; }
+.error { color: #d93b3b; }
+.filters { display: flex; flex-wrap: wrap; gap: 0.5rem; margin: 1rem 0; }
+table { border-collapse: collapse; width: 100%; background: #fff; margin-bottom: 0.5rem; }
+th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f0f0f0; }
+.flag { font-weight: 600; }
+.flag-UNSAFE { color: #d93b3b; }
+.flag-MIXED { color: #e0902f; }
+.flag-PAST_OFFENDER { color: #b5651d; }
+</style>
+</head>
+<body>
+<h1>robloxHELL dashboard</h1>
+<p id="error" class="error"></p>
+<div class="filters">
+<label>Run <select id="runs"></select></label>
+<span id="summary" class="muted"></span>
+</div>
+<h2>Flagged users</h2>
+<div class="filters">
+<select id="target"></select>
+<input id="flag" placeholder="Flag types, e.g. unsafe,mixed">
+<input id="min-confidence" type="number" min="0" max="1" step="0.05" placeholder="Min confidence">
+<input id="search" type="search" placeholder="User ID or name">
+</div>
+<table id="flagged">
+<thead><tr><th>User</th><th>Target</th><th>Role</th><th>Flag</th><th>Confidence</th><th>Reasons</th></tr></thead>
+<tbody></tbody>
+</table>
+<button id="prev">Previous</button> <button id="next">Next</button> <span id="page" class="muted"></span>
+<h2>User history</h2>
+<form id="user-form" class="filters">
+<input id="user" placeholder="User ID or username">
+<button type="submit">Look up</button>
+<span id="history-note" class="muted"></span>
+</form>
+<table id="history">
+<thead><tr><th>Run</th><th>Target</th><th>Flag</th><th>Confidence</th><th>Reasons</th></tr></thead>
+<tbody></tbody>
+</table>
+<script>${DASHBOARD_SCRIPT}</script>
+</body>
+</html>
+`;
+
+export interface ServeOptions {
+	port?: number;
+	hostname?: string;
+}
+
+/** Serve the dashboard and JSON routes for every run under `outputDir`. */
+export function serveResults(outputDir: string, options: ServeOptions = {}) {
+	const results = createResultsIndex(outputDir);
+
+	return Bun.serve({
+		port: options.port ?? DEFAULT_SERVE_PORT,
+		hostname: options.hostname ?? "127.0.0.1",
+		routes: {
+			"/": new Response(DASHBOARD_HTML, {
+				headers: { "Content-Type": "text/html; charset=utf-8" }
+			}),
+			"/api/runs": jsonRoute(() => results.listRuns()),
+			"/api/runs/:run": jsonRoute((req) =>
+				results.runSummary(req.params.run)
+			),
+			"/api/runs/:run/targets/:target": jsonRoute((req) =>
+				results.targetIndex(req.params.run, req.params.target)
+			),
+			"/api/runs/:run/flagged": jsonRoute((req) =>
+				results.flaggedUsers(
+					req.params.run,
+					parseFlaggedQuery(new URL(req.url).searchParams)
+				)
+			),
+			"/api/users/:user": jsonRoute((req) =>
+				results.userHistory(req.params.user)
+			)
+		},
+		fetch: () => Response.json({ error: "Not found" }, { status: 404 })
+	});
+}
+
+function printServeHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts serve <outputDir> [options]\n\nServes a dashboard and a JSON API over every finished run in <outputDir>.\n\nOptions:\n  -p, --port <n>     Port to listen on (default ${DEFAULT_SERVE_PORT})\n      --host <addr>  Address to bind (default 127.0.0.1)\n  -h, --help         Show this help message`
+	);
+}
+
+export async function runServeCommand(argv: string[]): Promise<void> {
+	const inputs: string[] = [];
+	const options: ServeOptions = {};
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printServeHelp();
+				return;
+			case "-p":
+			case "--port": {
+				const port = Number(argv[++i]);
+				if (!Number.isInteger(port) || port < 0 || port > 65535)
+					throw new Error("--port must be a port number");
+				options.port = port;
+				break;
+			}
+			case "--host": {
+				options.hostname = argv[++i];
+				if (!options.hostname)
+					throw new Error("Missing value for --host");
+				break;
+			}
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				inputs.push(arg);
+		}
+	}
+
+	if (inputs.length !== 1)
+		throw new Error("serve expects exactly one output directory");
+	const outputDir = resolve(process.cwd(), inputs[0]!);
+	if (!existsSync(outputDir))
+		throw new Error(`No such output directory: ${inputs[0]}`);
+
+	const server = serveResults(outputDir, options);
+	console.log(`Serving ${outputDir} at ${server.url}`);
+}
@@ -0,0 +1,135 @@
+import {
+	appendFileSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	renameSync,
+	writeFileSync
+} from "node:fs";
+import { dirname } from "node:path";
+import type { UserStatus } from "./rotector";
+
+export const DEFAULT_CACHE_FILE = "rotector-cache";
+export const DEFAULT_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Engine compatibility values that always force a fresh Rotector lookup. */
+const REFRESH_COMPATIBILITY = new Set(["outdated", "deprecated"]);
+
+interface CacheRecord {
+	cachedAt: number;
+	status: UserStatus;
+}
+
+export interface StatusCacheStats {
+	loaded: number;
+	hits: number;
+	stale: number;
+	written: number;
+}
+
+export interface PersistentStatusCache {
+	readonly path: string;
+	readonly maxAgeMs: number;
+	get(userId: number): UserStatus | undefined;
+	setMany(results: Record<string, UserStatus>): void;
+	compact(): void;
+	stats(): StatusCacheStats;
+}
+
+/**
+ * A cached status stays usable until its Rotector `lastUpdated` timestamp
+ * (or the time we cached it, when Rotector sent none) is older than
+ * `maxAgeMs`. Results from outdated or deprecated engines are never reused.
+ */
+function isFresh(record: CacheRecord, maxAgeMs: number, now: number): boolean {
+	const compatibility = record.status.versionCompatibility;
+	if (compatibility && REFRESH_COMPATIBILITY.has(compatibility)) return false;
+	const reference = record.status.lastUpdated
+		? record.status.lastUpdated * 1000
+		: record.cachedAt;
+	return now - reference <= maxAgeMs;
+}
+
+function loadRecords(path: string): Map<number, CacheRecord> {
+	const records = new Map<number, CacheRecord>();
+	if (!existsSync(path)) return records;
+
+	for (const line of readFileSync(path, "utf8").split("\n")) {
+		if (!line.trim()) continue;
+		let record: CacheRecord;
+		try {
+			record = JSON.parse(line) as CacheRecord;
+		} catch {
+			// A run killed mid-write can leave a truncated last line behind.
+			continue;
+		}
+		if (!record?.status || typeof record.status.id !== "number") continue;
+		records.set(record.status.id, record);
+	}
+
+	return records;
+}
+
+/** Open (or create) the NDJSON status cache stored at `path`. */
+export function openStatusCache(
+	path: string,
+	maxAgeMs = DEFAULT_CACHE_MAX_AGE_MS
+): PersistentStatusCache {
+	mkdirSync(dirname(path), { recursive: true });
+	const records = loadRecords(path);
+	const counters: StatusCacheStats = {
+		loaded: records.size,
+		hits: 0,
+		stale: 0,
+		written: 0
+	};
+
+	function get(userId: number): UserStatus | undefined {
+		const record = records.get(userId);
+		if (!record) return undefined;
+		if (!isFresh(record, maxAgeMs, Date.now())) {
+			counters.stale++;
+			return undefined;
+		}
+		counters.hits++;
+		return record.status;
+	}
+
+	function setMany(results: Record<string, UserStatus>) {
+		const cachedAt = Date.now();
+		const lines: string[] = [];
+		for (const status of Object.values(results)) {
+			const record: CacheRecord = { cachedAt, status };
+			records.set(status.id, record);
+			lines.push(JSON.stringify(record));
+		}
+		if (!lines.length) return;
+		appendFileSync(path, `${lines.join("\n")}\n`);
+		counters.written += lines.length;
+	}
+
+	/** Rewrite the cache file keeping only the newest fresh record per user. */
+	function compact() {
+		const now = Date.now();
+		const lines: string[] = [];
+		for (const [userId, record] of records) {
+			if (!isFresh(record, maxAgeMs, now)) {
+				records.delete(userId);
+				continue;
+			}
+			lines.push(JSON.stringify(record));
+		}
+		const tmpPath = `${path}.tmp`;
+		writeFileSync(tmpPath, lines.length ? `${lines.join("\n")}\n` : "");
+		renameSync(tmpPath, path);
+	}
+
+	return {
+		path,
+		maxAgeMs,
+		get,
+		setMany,
+		compact,
+		stats: () => ({ ...counters })
+	};
+}
@@ -0,0 +1,239 @@
+import { existsSync, statSync } from "node:fs";
+import { join, resolve } from "node:path";
+import process from "node:process";
+import { parseDuration } from "./config";
+import { validateOptionalCookies } from "./httpClient";
+import { checkUser, flagTypeToString, type UserStatus } from "./rotector";
+import {
+	DEFAULT_CACHE_FILE,
+	DEFAULT_CACHE_MAX_AGE_MS,
+	openStatusCache,
+	type PersistentStatusCache
+} from "./statusCache";
+import {
+	resolveUserIds,
+	resolveUserNames,
+	type UserNames
+} from "./usersScraper";
+
+export interface UserLookupResult {
+	/** The user ID or username as it was asked for. */
+	query: string;
+	userId: number | null;
+	username: string | null;
+	displayName: string | null;
+	flagLabel: string | null;
+	/** Where the status came from; null when the lookup failed. */
+	source: "cache" | "rotector" | null;
+	status: UserStatus | null;
+	error: string | null;
+}
+
+export interface UserLookupOptions {
+	/** Statuses are read from here first, and fresh ones stored in it. */
+	cache?: PersistentStatusCache | null;
+}
+
+/**
+ * Look up users by ID or username, one Rotector request per user not found
+ * in the cache. Failures are reported per user instead of thrown.
+ */
+export async function lookupUsers(
+	queries: string[],
+	options: UserLookupOptions = {}
+): Promise<UserLookupResult[]> {
+	const usernames = queries.filter((query) => !/^\d+$/.test(query));
+	let ids = new Map<string, number>();
+	let resolveError: string | null = null;
+	if (usernames.length) {
+		try {
+			ids = await resolveUserIds(usernames);
+		} catch (err) {
+			resolveError = `Could not resolve the username: ${
+				(err as Error).message
+			}`;
+		}
+	}
+	for (const query of queries) {
+		if (/^\d+$/.test(query)) ids.set(query, Number(query));
+	}
+	const names = await resolveUserNames([...ids.values()]);
+
+	const results: UserLookupResult[] = [];
+	for (const query of queries) {
+		const userId = ids.get(query) ?? null;
+		const result: UserLookupResult = {
+			query,
+			userId,
+			username: null,
+			displayName: null,
+			flagLabel: null,
+			source: null,
+			status: null,
+			error: null
+		};
+		results.push(result);
+		if (userId === null) {
+			result.error = resolveError ?? `No Roblox user is named ${query}`;
+			continue;
+		}
+
+		const known: UserNames | undefined = names.get(userId);
+		result.username = known?.username ?? null;
+		result.displayName = known?.displayName ?? null;
+
+		const cached = options.cache?.get(userId);
+		if (cached) {
+			result.status = cached;
+			result.source = "cache";
+		} else {
+			try {
+				result.status = await checkUser(userId);
+				result.source = "rotector";
+				options.cache?.setMany({ [userId]: result.status });
+			} catch (err) {
+				result.error = (err as Error).message;
+				continue;
+			}
+		}
+		result.flagLabel = flagTypeToString(result.status.flagType);
+	}
+	return results;
+}
+
+function formatConfidence(confidence: number | undefined): string {
+	return confidence === undefined ? "n/a" : confidence.toFixed(2);
+}
+
+/** Console breakdown of one lookup: flag, reasons with evidence, reviewer. */
+export function formatUserLookup(
+	result: UserLookupResult,
+	cachePath?: string
+): string {
+	const name = result.username
+		? `${result.displayName ?? result.username} (@${result.username})`
+		: result.query;
+	const heading = result.userId === null ? name : `${name} ${result.userId}`;
+	if (!result.status) return `${heading}\n  Error: ${result.error}`;
+
+	const status = result.status;
+	const lines = [
+		heading,
+		`  Flag:        ${result.flagLabel} (${status.flagType})`,
+		`  Confidence:  ${formatConfidence(status.confidence)}`
+	];
+
+	const reasons = Object.entries(status.reasons ?? {});
+	if (reasons.length) {
+		lines.push("  Reasons:");
+		for (const [reasonName, reason] of reasons) {
+			lines.push(
+				`    ${reasonName} (${formatConfidence(reason.confidence)})`
+			);
+			if (reason.message) lines.push(`      ${reason.message}`);
+			for (const evidence of reason.evidence ?? []) {
+				lines.push(`      - ${evidence}`);
+			}
+		}
+	}
+
+	if (status.reviewer) {
+		lines.push(
+			`  Reviewer:    ${status.reviewer.displayName} (@${status.reviewer.username})`
+		);
+	}
+	if (status.engineVersion) {
+		const compatibility = status.versionCompatibility
+			? ` (${status.versionCompatibility})`
+			: "";
+		lines.push(`  Engine:      ${status.engineVersion}${compatibility}`);
+	}
+	if (status.lastUpdated) {
+		lines.push(
+			`  Updated:     ${new Date(status.lastUpdated * 1000).toISOString()}`
+		);
+	}
+	lines.push(
+		result.source === "cache"
+			? `  Source:      cache${cachePath ? ` (${cachePath})` : ""}`
+			: "  Source:      Rotector"
+	);
+	return lines.join("\n");
+}
+
+function printLookupHelp() {
+	console.log(
+		`Usage:\n  bun run src/index.ts lookup <userId|username>... [options]\n\nLooks up single users on Rotector and prints their flag, confidence, reasons with evidence, reviewer, engine version and last update.\n\nOptions:\n      --json              Print the results as JSON instead\n      --cache <path>      Status cache file, or the scan output directory holding ${DEFAULT_CACHE_FILE} (default ./${DEFAULT_CACHE_FILE})\n      --cache-max-age <d> Reuse cached statuses up to this age, e.g. 12h or 7d (default 7d)\n      --no-cache          Always query Rotector and leave the cache untouched\n      --cookie-file <f>   Use the .ROBLOSECURITY tokens listed in this file instead of COOKIE\n      --no-cookie         Send no cookie\n  -h, --help              Show this help message\n\nThe cache is only read, and fresh results only stored in it, when the file already exists.`
+	);
+}
+
+/** A directory stands for the cache file a scan keeps inside it. */
+function resolveCachePath(raw: string | undefined): string {
+	const path = resolve(process.cwd(), raw ?? DEFAULT_CACHE_FILE);
+	return existsSync(path) && statSync(path).isDirectory()
+		? join(path, DEFAULT_CACHE_FILE)
+		: path;
+}
+
+export async function runLookupCommand(argv: string[]): Promise<void> {
+	const queries: string[] = [];
+	let json = false;
+	let cacheFile: string | undefined;
+	let cacheEnabled = true;
+	let cacheMaxAgeMs = DEFAULT_CACHE_MAX_AGE_MS;
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]!;
+		switch (arg) {
+			case "-h":
+			case "--help":
+				printLookupHelp();
+				return;
+			case "--json":
+				json = true;
+				break;
+			case "--cache": {
+				cacheFile = argv[++i];
+				if (!cacheFile) throw new Error("Missing value for --cache");
+				break;
+			}
+			case "--cache-max-age": {
+				const raw = argv[++i];
+				if (!raw) throw new Error("Missing value for --cache-max-age");
+				cacheMaxAgeMs = parseDuration(raw, arg);
+				break;
+			}
+			case "--no-cache":
+				cacheEnabled = false;
+				break;
+			default:
+				if (arg.startsWith("-"))
+					throw new Error(`Unknown argument: ${arg}`);
+				queries.push(arg);
+		}
+	}
+
+	if (!queries.length)
+		throw new Error("lookup expects at least one user ID or username");
+
+	const cachePath = resolveCachePath(cacheFile);
+	if (cacheFile && cacheEnabled && !existsSync(cachePath))
+		throw new Error(`Cache file not found: ${cachePath}`);
+	const cache =
+		cacheEnabled && existsSync(cachePath)
+			? openStatusCache(cachePath, cacheMaxAgeMs)
+			: null;
+
+	await validateOptionalCookies();
+	const results = await lookupUsers([...new Set(queries)], { cache });
+	if (json) {
+		console.log(JSON.stringify(results, undefined, 2));
+	} else {
+		console.log(
+			results
+				.map((result) => formatUserLookup(result, cache?.path))
+				.join("\n\n")
+		);
+	}
+	if (results.some((result) => result.error)) process.exitCode = 1;
+}
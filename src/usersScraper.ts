@@ -1,15 +1,8 @@
-const MAX_SEARCH_FRIENDS_LIMIT = 50;
-const MAX_HTTP_RETRIES = 5;
-const BASE_RETRY_DELAY_MS = 1000;
-const MAX_RETRY_DELAY_MS = 30_000;
-
-function backoffMs(attempt: number) {
-	return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
-}
+import { requestJSON, warnHttp } from "./httpClient";
 
-function wait(ms: number) {
-	return new Promise((resolve) => setTimeout(resolve, ms));
-}
+const MAX_SEARCH_FRIENDS_LIMIT = 50;
+const MAX_USERS_PER_NAME_LOOKUP = 100;
+const MAX_FOLLOWS_LIMIT = 100;
 
 type FriendResponse = {
 	PreviousCursor: null | string;
@@ -21,75 +14,207 @@ type FriendResponse = {
 	HasMore: null;
 };
 
+type UsersResponse = {
+	data: {
+		id: number;
+		name: string;
+		displayName: string;
+		hasVerifiedBadge: boolean;
+	}[];
+};
+
+type UsernamesResponse = {
+	data: {
+		requestedUsername: string;
+		id: number;
+		name: string;
+		displayName: string;
+		hasVerifiedBadge: boolean;
+	}[];
+};
+
+type FollowsResponse = {
+	previousPageCursor: string | null;
+	nextPageCursor: string | null;
+	data: {
+		id: number;
+		name: string;
+		displayName: string;
+		hasVerifiedBadge: boolean;
+	}[];
+};
+
+/** Which side of a user's follow relationships to stream. */
+export type FollowDirection = "followers" | "followings";
+
+export interface UserNames {
+	username: string;
+	displayName: string;
+}
+
 function generateURL(userId: string, cursor?: string | null): string {
 	if (!cursor)
 		return `https://friends.roblox.com/v1/users/${userId}/friends/search?limit=${MAX_SEARCH_FRIENDS_LIMIT}`;
 	return `https://friends.roblox.com/v1/users/${userId}/friends/search?limit=${MAX_SEARCH_FRIENDS_LIMIT}&cursor=${cursor}`;
 }
 
-async function fetchFriendsPage(
+function fetchFriendsPage(
 	userId: string,
 	cursor: string | null
 ): Promise<FriendResponse> {
-	for (let attempt = 0; ; attempt++) {
-		let resp: Response;
+	return requestJSON<FriendResponse>({
+		url: generateURL(userId, cursor),
+		auth: true,
+		label: `fetching friends of ${userId}`
+	});
+}
+
+function fetchFollowsPage(
+	userId: string,
+	direction: FollowDirection,
+	cursor: string | null
+): Promise<FollowsResponse> {
+	const url = `https://friends.roblox.com/v1/users/${userId}/${direction}?limit=${MAX_FOLLOWS_LIMIT}&sortOrder=Desc`;
+	return requestJSON<FollowsResponse>({
+		url: cursor ? `${url}&cursor=${encodeURIComponent(cursor)}` : url,
+		auth: true,
+		label: `fetching ${direction} of ${userId}`
+	});
+}
+
+function fetchUsersByIds(userIds: number[]): Promise<UsersResponse> {
+	return requestJSON<UsersResponse>({
+		url: "https://users.roblox.com/v1/users",
+		method: "POST",
+		body: { userIds, excludeBannedUsers: false },
+		auth: true,
+		label: "resolving user names"
+	});
+}
+
+function fetchUsersByNames(usernames: string[]): Promise<UsernamesResponse> {
+	return requestJSON<UsernamesResponse>({
+		url: "https://users.roblox.com/v1/usernames/users",
+		method: "POST",
+		body: { usernames, excludeBannedUsers: false },
+		auth: true,
+		label: "resolving usernames"
+	});
+}
+
+const knownNames = new Map<number, UserNames>();
+/** IDs the users endpoint returned nothing for (deleted or terminated). */
+const unresolvableIds = new Set<number>();
+
+/** Remember names that arrived with another response, e.g. group members. */
+export function rememberUserNames(userId: number, names: UserNames) {
+	knownNames.set(userId, {
+		username: names.username,
+		displayName: names.displayName
+	});
+}
+
+export function getKnownUserNames(userId: number): UserNames | undefined {
+	return knownNames.get(userId);
+}
+
+/**
+ * Resolve usernames and display names, asking Roblox only for IDs that are
+ * not cached yet. IDs Roblox does not know, and batches that keep failing,
+ * are left out of the result; names are never worth aborting a scan over.
+ */
+export async function resolveUserNames(
+	userIds: number[]
+): Promise<Map<number, UserNames>> {
+	const missing = [
+		...new Set(
+			userIds.filter((id) => !knownNames.has(id) && !unresolvableIds.has(id))
+		)
+	];
+
+	for (let i = 0; i < missing.length; i += MAX_USERS_PER_NAME_LOOKUP) {
+		const batch = missing.slice(i, i + MAX_USERS_PER_NAME_LOOKUP);
+		let data: UsersResponse;
 		try {
-			resp = await fetch(generateURL(userId, cursor), {
-				headers: {
-					Accept: "application/json",
-					"User-Agent":
-						"robloxHELL/1.0 (+https://ocbwoy3.dev, ocbwoy3@ocbwoy3.dev)",
-					Cookie: `.ROBLOSECURITY=${process.env.COOKIE}`
-				}
-			});
+			data = await fetchUsersByIds(batch);
 		} catch (err) {
-			const retryAttempt = attempt + 1;
-			if (retryAttempt >= MAX_HTTP_RETRIES) {
-				throw new Error(
-					`Network error fetching friends of ${userId}: ${
-						(err as Error).message
-					}`
-				);
-			}
-			const waitMs = backoffMs(retryAttempt);
-			console.warn(
-				`Network error fetching friends of ${userId}, retrying in ${Math.round(
-					waitMs / 1000
-				)}s (attempt ${retryAttempt})`
+			warnHttp(
+				`Could not resolve names for ${batch.length} user(s): ${
+					(err as Error).message
+				}`
 			);
-			await wait(waitMs);
 			continue;
 		}
-
-		if (resp.ok) {
-			return (await resp.json()) as FriendResponse;
+		for (const user of data.data) {
+			knownNames.set(user.id, {
+				username: user.name,
+				displayName: user.displayName
+			});
 		}
+		for (const id of batch) {
+			if (!knownNames.has(id)) unresolvableIds.add(id);
+		}
+	}
+
+	const result = new Map<number, UserNames>();
+	for (const id of userIds) {
+		const names = knownNames.get(id);
+		if (names) result.set(id, names);
+	}
+	return result;
+}
 
-		const retryAttempt = attempt + 1;
-		const waitMs = backoffMs(retryAttempt);
-		console.warn(
-			`HTTP ${resp.status} fetching friends of ${userId}, retrying in ${Math.round(
-				waitMs / 1000
-			)}s (attempt ${retryAttempt})`
-		);
-		if (retryAttempt >= MAX_HTTP_RETRIES) {
-			throw new Error(
-				`HTTP ${resp.status} error fetching friends of ${userId}`
+/**
+ * Find the user IDs behind usernames, keyed by the username as given.
+ * Usernames Roblox does not know are left out of the result.
+ */
+export async function resolveUserIds(
+	usernames: string[]
+): Promise<Map<string, number>> {
+	const result = new Map<string, number>();
+	for (let i = 0; i < usernames.length; i += MAX_USERS_PER_NAME_LOOKUP) {
+		const batch = usernames.slice(i, i + MAX_USERS_PER_NAME_LOOKUP);
+		const data = await fetchUsersByNames(batch);
+		for (const user of data.data) {
+			rememberUserNames(user.id, {
+				username: user.name,
+				displayName: user.displayName
+			});
+			const requested = batch.find(
+				(name) =>
+					name.toLowerCase() === user.requestedUsername.toLowerCase()
 			);
+			if (requested) result.set(requested, user.id);
 		}
-		await wait(waitMs);
 	}
+	return result;
+}
+
+export interface FriendStreamPosition {
+	cursor: string | null;
+}
+
+export interface FriendStreamOptions {
+	/** Yield the subject before their friends (default true). */
+	includeSubject?: boolean;
+	/** Continue from a saved position; the subject is not yielded again. */
+	resumeFrom?: FriendStreamPosition | null;
+	/** Called before each page is fetched, once every earlier ID was consumed. */
+	onPage?(position: FriendStreamPosition): Promise<void> | void;
 }
 
 export async function* streamFriends(
-	userid: string
+	userid: string,
+	options: FriendStreamOptions = {}
 ): AsyncGenerator<number> {
-	yield Number(userid);
+	if (options.includeSubject !== false && !options.resumeFrom)
+		yield Number(userid);
 
-	let nextCursor: string | null = null;
+	let nextCursor: string | null = options.resumeFrom?.cursor ?? null;
 	let hasMore = true;
 
 	while (hasMore) {
+		await options.onPage?.({ cursor: nextCursor });
 		const data = await fetchFriendsPage(userid, nextCursor);
 		for (const entry of data.PageItems) {
 			yield entry.id;
@@ -100,6 +225,123 @@ export async function* streamFriends(
 	}
 }
 
+/**
+ * Stream the followers or followings of `userid`, which unlike friends are
+ * not capped. Takes the same options as `streamFriends`.
+ */
+export async function* streamFollows(
+	userid: string,
+	direction: FollowDirection,
+	options: FriendStreamOptions = {}
+): AsyncGenerator<number> {
+	if (options.includeSubject !== false && !options.resumeFrom)
+		yield Number(userid);
+
+	let nextCursor: string | null = options.resumeFrom?.cursor ?? null;
+	do {
+		await options.onPage?.({ cursor: nextCursor });
+		const data = await fetchFollowsPage(userid, direction, nextCursor);
+		for (const user of data.data) {
+			// Names are blank for some accounts; those are looked up later.
+			if (user.name) {
+				rememberUserNames(user.id, {
+					username: user.name,
+					displayName: user.displayName || user.name
+				});
+			}
+			yield user.id;
+		}
+		nextCursor = data.nextPageCursor;
+	} while (nextCursor);
+}
+
+export interface FriendGraphEntry {
+	userId: number;
+	/** User whose friend list produced this entry; null for the subject. */
+	from: number | null;
+	hop: number;
+	/** False when the user was already reached through another friend. */
+	firstSeen: boolean;
+}
+
+export interface FriendGraphPosition {
+	hop: number;
+	frontier: number[];
+	index: number;
+	cursor: string | null;
+	next: number[];
+	visited: number[];
+}
+
+export interface FriendGraphOptions {
+	/** Number of hops to walk; 1 only lists the subject's own friends. */
+	depth: number;
+	/** Expand at most this many users per hop (after filtering). */
+	maxPerHop?: number;
+	/** Called once a hop is fully streamed, before deciding who to expand. */
+	beforeExpand?(hop: number): Promise<void> | void;
+	/** Decide whether a user discovered on the previous hop gets expanded. */
+	shouldExpand?(userId: number): boolean;
+	resumeFrom?: FriendGraphPosition | null;
+	onPage?(position: FriendGraphPosition): Promise<void> | void;
+}
+
+/** Breadth-first walk of the friend graph around `userid`. */
+export async function* streamFriendGraph(
+	userid: string,
+	options: FriendGraphOptions
+): AsyncGenerator<FriendGraphEntry> {
+	const subject = Number(userid);
+	const resume = options.resumeFrom;
+	const visited = new Set<number>(resume?.visited ?? [subject]);
+
+	if (!resume) yield { userId: subject, from: null, hop: 0, firstSeen: true };
+
+	let hop = resume?.hop ?? 1;
+	let frontier = resume?.frontier ?? [subject];
+	let index = resume?.index ?? 0;
+	let cursor = resume?.cursor ?? null;
+	let next = resume?.next ?? [];
+
+	while (hop <= options.depth && frontier.length) {
+		for (; index < frontier.length; index++) {
+			const from = frontier[index]!;
+			const friends = streamFriends(from.toString(), {
+				includeSubject: false,
+				resumeFrom: { cursor },
+				onPage: (page) =>
+					options.onPage?.({
+						hop,
+						frontier,
+						index,
+						cursor: page.cursor,
+						next,
+						visited: [...visited]
+					})
+			});
+			for await (const friendId of friends) {
+				const firstSeen = !visited.has(friendId);
+				if (firstSeen) {
+					visited.add(friendId);
+					next.push(friendId);
+				}
+				yield { userId: friendId, from, hop, firstSeen };
+			}
+			cursor = null;
+		}
+
+		if (hop >= options.depth) break;
+
+		await options.beforeExpand?.(hop);
+		const shouldExpand = options.shouldExpand ?? (() => true);
+		frontier = next.filter(shouldExpand);
+		if (options.maxPerHop) frontier = frontier.slice(0, options.maxPerHop);
+		next = [];
+		index = 0;
+		hop++;
+	}
+}
+
 /** Get ALL FRIENDS of a Roblox user. */
 export async function getFriends(userid: string): Promise<number[]> {
 	const friends: number[] = [];
@@ -0,0 +1,204 @@
+import { sleep } from "bun";
+import {
+	appendFileSync,
+	existsSync,
+	readFileSync,
+	writeFileSync
+} from "node:fs";
+import { join } from "node:path";
+import { flagSeverity, flagTypeToString } from "./rotector";
+import {
+	readIdList,
+	readLatestStatuses,
+	readRoles,
+	type LoadedRun
+} from "./runFiles";
+
+export const WATCH_STATE_FILE = "watch-state.json";
+export const WATCH_EVENTS_FILE = "events";
+
+const WEBHOOK_BATCH_SIZE = 100;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const MAX_WEBHOOK_ATTEMPTS = 3;
+
+export type WatchEventType = "member_joined" | "flagged" | "flag_escalated";
+
+export interface WatchEvent {
+	type: WatchEventType;
+	at: string;
+	runId: string;
+	target: string;
+	userId: number;
+	roleId?: number;
+	flagType?: number;
+	flagLabel?: string;
+	previousFlagType?: number;
+	previousFlagLabel?: string;
+}
+
+interface MemberState {
+	roleId?: number;
+	flagType?: number;
+}
+
+export interface WatchState {
+	runId: string;
+	updatedAt: string;
+	targets: Record<string, Record<string, MemberState>>;
+}
+
+export function readWatchState(path: string): WatchState | null {
+	if (!existsSync(path)) return null;
+	return JSON.parse(readFileSync(path, "utf8")) as WatchState;
+}
+
+export function writeWatchState(path: string, state: WatchState) {
+	writeFileSync(path, JSON.stringify(state));
+}
+
+/** Snapshot membership and flag type of every user in a finished run. */
+export async function captureRunState(run: LoadedRun): Promise<WatchState> {
+	const targets: WatchState["targets"] = {};
+
+	for (const target of run.targets) {
+		const members: Record<string, MemberState> = {};
+
+		if (target.summary.type === "group") {
+			for (const role of readRoles(target.dirPath)) {
+				const ids = readIdList(
+					join(target.dirPath, role.id.toString())
+				);
+				for (const id of ids) members[id] = { roleId: role.id };
+			}
+		} else {
+			for (const id of readIdList(join(target.dirPath, "users"))) {
+				members[id] = {};
+			}
+		}
+
+		for (const [userId, record] of await readLatestStatuses(
+			target.dirPath
+		)) {
+			members[userId] = {
+				...members[userId],
+				flagType: record.user.flagType
+			};
+		}
+
+		targets[target.summary.label] = members;
+	}
+
+	return {
+		runId: run.summary.runId,
+		updatedAt: new Date().toISOString(),
+		targets
+	};
+}
+
+/**
+ * Events between two snapshots. Targets without a previous snapshot only
+ * establish a baseline and produce no events.
+ */
+export function detectChanges(
+	previous: WatchState,
+	current: WatchState
+): WatchEvent[] {
+	const events: WatchEvent[] = [];
+	const at = new Date().toISOString();
+
+	for (const [label, members] of Object.entries(current.targets)) {
+		const before = previous.targets[label];
+		if (!before) continue;
+
+		for (const [userIdRaw, member] of Object.entries(members)) {
+			const userId = Number(userIdRaw);
+			const old = before[userIdRaw];
+			const base = { at, runId: current.runId, target: label, userId };
+			const flag =
+				member.flagType !== undefined
+					? {
+							flagType: member.flagType,
+							flagLabel: flagTypeToString(member.flagType)
+					  }
+					: {};
+
+			if (!old) {
+				events.push({
+					type: "member_joined",
+					...base,
+					...(member.roleId !== undefined
+						? { roleId: member.roleId }
+						: {}),
+					...flag
+				});
+			}
+
+			if (member.flagType === undefined || member.flagType === 0)
+				continue;
+			const oldFlag = old?.flagType;
+
+			if (oldFlag === undefined || oldFlag === 0) {
+				events.push({ type: "flagged", ...base, ...flag });
+			} else if (flagSeverity(member.flagType) > flagSeverity(oldFlag)) {
+				events.push({
+					type: "flag_escalated",
+					...base,
+					...flag,
+					previousFlagType: oldFlag,
+					previousFlagLabel: flagTypeToString(oldFlag)
+				});
+			}
+		}
+	}
+
+	return events;
+}
+
+export function appendEvents(path: string, events: WatchEvent[]) {
+	if (!events.length) return;
+	appendFileSync(
+		path,
+		`${events.map((event) => JSON.stringify(event)).join("\n")}\n`
+	);
+}
+
+/** POST events to `url` as JSON, in batches, retrying failed deliveries. */
+export async function postWebhook(
+	url: string,
+	runId: string,
+	events: WatchEvent[]
+): Promise<void> {
+	for (let i = 0; i < events.length; i += WEBHOOK_BATCH_SIZE) {
+		const body = JSON.stringify({
+			runId,
+			generatedAt: new Date().toISOString(),
+			events: events.slice(i, i + WEBHOOK_BATCH_SIZE)
+		});
+
+		for (let attempt = 1; ; attempt++) {
+			try {
+				const resp = await fetch(url, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						"User-Agent":
+							"robloxHELL/1.0 (+https://ocbwoy3.dev, ocbwoy3@ocbwoy3.dev)"
+					},
+					body,
+					signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+				});
+				if (resp.ok) break;
+				throw new Error(`HTTP ${resp.status}`);
+			} catch (err) {
+				if (attempt >= MAX_WEBHOOK_ATTEMPTS) {
+					throw new Error(
+						`Webhook delivery failed after ${attempt} attempt(s): ${
+							(err as Error).message
+						}`
+					);
+				}
+				await sleep(1000 * 2 ** (attempt - 1));
+			}
+		}
+	}
+}
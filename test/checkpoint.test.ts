@@ -0,0 +1,153 @@
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	setSystemTime,
+	test
+} from "bun:test";
+import { appendFileSync, existsSync, readFileSync, rmSync } from "node:fs";
+import { once } from "node:events";
+import type { WriteStream } from "node:fs";
+import { join } from "node:path";
+import { CHECKPOINT_FILE, createCheckpointer } from "../src/checkpoint";
+import { disableCookies } from "../src/cookiePool";
+import { readIdList, readRotectorRecords } from "../src/runFiles";
+import { scanTargets } from "../src/scanner";
+import { installFakeApi, runScan, tempDir, type FakeApi } from "./fakeApi";
+
+const dirs: string[] = [];
+function newDir() {
+	const dir = tempDir();
+	dirs.push(dir);
+	return dir;
+}
+
+/** Past the 15 second interval between two checkpoint writes. */
+function skipCheckpointInterval() {
+	setSystemTime(new Date(Date.now() + 16_000));
+}
+
+async function close(stream: WriteStream) {
+	stream.end();
+	await once(stream, "close");
+}
+
+afterEach(() => setSystemTime());
+afterAll(() => {
+	for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+});
+
+describe("createCheckpointer", () => {
+	test("cuts files back to their checkpointed size on resume", async () => {
+		const dir = newDir();
+		const first = createCheckpointer<{ cursor: string }>(dir, "t", false);
+		const users = first.openWriter("users");
+		users.write("1\n2\n");
+		skipCheckpointInterval();
+		await first.save({ cursor: "page-2" });
+		users.write("3\n4\n");
+		await close(users);
+		// A crash in the middle of a write leaves half a line behind.
+		appendFileSync(join(dir, "users"), "5");
+
+		const second = createCheckpointer<{ cursor: string }>(dir, "t", true);
+		expect(second.resumed?.position).toEqual({ cursor: "page-2" });
+		const resumed = second.openWriter("users");
+		expect(readFileSync(join(dir, "users"), "utf8")).toBe("1\n2\n");
+		resumed.write("3\n");
+		await close(resumed);
+		expect(readIdList(join(dir, "users"))).toEqual([1, 2, 3]);
+	});
+
+	test("empties files the checkpoint does not know about", async () => {
+		const dir = newDir();
+		const first = createCheckpointer<number>(dir, "t", false);
+		const users = first.openWriter("users");
+		skipCheckpointInterval();
+		await first.save(0);
+		const failed = first.openWriter("failed");
+		failed.write("9\n");
+		await Promise.all([close(users), close(failed)]);
+
+		const second = createCheckpointer<number>(dir, "t", true);
+		await close(second.openWriter("failed"));
+		expect(readFileSync(join(dir, "failed"), "utf8")).toBe("");
+	});
+
+	test("writes at most every 15 seconds and removes the file when done", async () => {
+		const dir = newDir();
+		const checkpointer = createCheckpointer<number>(dir, "t", false);
+		await checkpointer.save(1);
+		expect(existsSync(join(dir, CHECKPOINT_FILE))).toBe(false);
+
+		skipCheckpointInterval();
+		await checkpointer.save(2);
+		expect(
+			JSON.parse(readFileSync(join(dir, CHECKPOINT_FILE), "utf8"))
+				.position
+		).toBe(2);
+
+		checkpointer.complete();
+		expect(existsSync(join(dir, CHECKPOINT_FILE))).toBe(false);
+	});
+});
+
+describe("resuming a scan", () => {
+	const members = Array.from({ length: 250 }, (_, i) => 500_000 + i);
+	let api: FakeApi;
+
+	beforeAll(() => {
+		disableCookies();
+		api = installFakeApi();
+		api.groups.set("77", {
+			roles: [{ id: 771, name: "Member", rank: 1, memberCount: 250 }],
+			members: { 771: members }
+		});
+		api.statuses.set(members[3]!, { flagType: 2, confidence: 0.9 });
+	});
+	afterAll(() => api.restore());
+
+	test("replays the saved cursor without duplicating output", async () => {
+		const outputDir = newDir();
+		// Every members page lands past the interval, so the position before
+		// each page is checkpointed.
+		api.onRequest = (url) => {
+			if (url.pathname.endsWith("/users")) skipCheckpointInterval();
+		};
+
+		let collected = 0;
+		let runDir = "";
+		const scan = scanTargets({
+			outputDir,
+			runId: "interrupted",
+			targets: { groups: [{ id: "77" }] }
+		});
+		for await (const event of scan) {
+			if (event.type === "run_started") runDir = event.runDir;
+			if (event.type === "entry_collected" && ++collected === 150) break;
+		}
+		const targetDir = join(runDir, "group-77");
+		const checkpoint = JSON.parse(
+			readFileSync(join(targetDir, CHECKPOINT_FILE), "utf8")
+		);
+		expect(checkpoint.position.cursor).toBe("100");
+		expect(readIdList(join(targetDir, "771")).length).toBeGreaterThan(100);
+
+		api.requests.length = 0;
+		const { result } = await runScan({ resumeDir: runDir });
+
+		const pages = api.requests.filter((r) => r.includes("/roles/771/"));
+		expect(pages[0]).toContain("cursor=100");
+		expect(readIdList(join(targetDir, "771"))).toEqual(members);
+
+		const written: number[] = [];
+		for await (const record of readRotectorRecords(targetDir)) {
+			written.push(record.user.id);
+		}
+		expect(written.sort((a, b) => a - b)).toEqual(members);
+		expect(result.summary.flagBreakdown).toEqual({ SAFE: 249, UNSAFE: 1 });
+		expect(existsSync(join(targetDir, CHECKPOINT_FILE))).toBe(false);
+	});
+});
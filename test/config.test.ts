@@ -0,0 +1,162 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { loadConfigFile, parseDuration } from "../src/config";
+import { tempDir } from "./fakeApi";
+
+const dir = tempDir();
+let files = 0;
+
+function writeConfig(content: unknown, extension = "json"): string {
+	const path = join(dir, `config-${++files}.${extension}`);
+	writeFileSync(
+		path,
+		typeof content === "string" ? content : JSON.stringify(content)
+	);
+	return path;
+}
+
+function errorOf(path: string, profile?: string): string {
+	try {
+		loadConfigFile(path, profile);
+	} catch (err) {
+		return (err as Error).message;
+	}
+	throw new Error(`${path} was accepted`);
+}
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("parseDuration", () => {
+	test("reads bare seconds and unit suffixes", () => {
+		expect(parseDuration("90", "--x")).toBe(90_000);
+		expect(parseDuration("30m", "--x")).toBe(30 * 60_000);
+		expect(parseDuration("1.5h", "--x")).toBe(90 * 60_000);
+		expect(parseDuration("7d", "--x")).toBe(7 * 24 * 60 * 60_000);
+	});
+
+	test("rejects zero and unknown units", () => {
+		expect(() => parseDuration("0", "--watch")).toThrow(
+			"Invalid duration for --watch: 0"
+		);
+		expect(() => parseDuration("3w", "--watch")).toThrow();
+	});
+});
+
+describe("loadConfigFile", () => {
+	test("reads settings and targets from TOML", () => {
+		const path = writeConfig(
+			`output = "reports"
+cookies = "cookies.txt"
+
+[cache]
+maxAge = "12h"
+
+[filter]
+flagTypes = ["unsafe", "mixed"]
+
+[targets.main-group]
+group = 4553650
+cap = 30000
+roles = ["Member"]
+roleCaps = { Member = 100 }
+
+[targets.friend]
+friend = "7345807477"
+
+[targets.mods]
+usersFile = "mods.csv"
+column = "robloxId"
+`,
+			"toml"
+		);
+
+		expect(loadConfigFile(path)).toEqual({
+			outputDir: join(dir, "reports"),
+			cookiesEnabled: true,
+			cookieFile: join(dir, "cookies.txt"),
+			cacheMaxAgeMs: 12 * 60 * 60_000,
+			outputFilter: { flagTypes: ["UNSAFE", "MIXED"] },
+			friendIds: ["7345807477"],
+			groups: [
+				{
+					id: "4553650",
+					cap: 30000,
+					roles: { include: ["Member"], roleCaps: { Member: 100 } }
+				}
+			],
+			lists: [
+				{
+					name: "mods",
+					path: join(dir, "mods.csv"),
+					column: "robloxId"
+				}
+			],
+			followers: [],
+			followings: []
+		});
+	});
+
+	test("applies a profile's settings and targets on top", () => {
+		const path = writeConfig({
+			concurrency: 2,
+			targets: { a: { friend: 1 }, b: { group: 2 } },
+			profiles: { nightly: { concurrency: 4, targets: ["b"] } }
+		});
+
+		const config = loadConfigFile(path, "nightly");
+		expect(config.concurrency).toBe(4);
+		expect(config.friendIds).toEqual([]);
+		expect(config.groups).toEqual([{ id: "2" }]);
+	});
+
+	test("names the offending key", () => {
+		expect(errorOf(writeConfig({ outptu: "x" }))).toEndWith(
+			'Unknown key "outptu"'
+		);
+		expect(
+			errorOf(writeConfig({ targets: { g: { group: 1, cap: -5 } } }))
+		).toEndWith('"targets.g.cap" must be a positive integer');
+		expect(errorOf(writeConfig({ cache: { maxAge: "soon" } }))).toEndWith(
+			'"cache.maxAge" must be a duration such as 90, 30m, 12h or 7d'
+		);
+		expect(
+			errorOf(writeConfig({ filter: { minConfidence: 2 } }))
+		).toEndWith('"filter.minConfidence" must be a number from 0 to 1');
+		expect(
+			errorOf(writeConfig({ watch: { webhook: "ftp://example" } }))
+		).toEndWith('"watch.webhook" must be an http(s) URL');
+	});
+
+	test("rejects targets that are not exactly one kind", () => {
+		expect(
+			errorOf(writeConfig({ targets: { both: { friend: 1, group: 2 } } }))
+		).toEndWith(
+			'"targets.both" must set exactly one of "friend", "followers", "followings", "group" or "usersFile"'
+		);
+		expect(
+			errorOf(writeConfig({ targets: { "my list": { usersFile: "a" } } }))
+		).toContain('"targets.my list" is a user list');
+	});
+
+	test("rejects unknown profiles and profile targets", () => {
+		const path = writeConfig({
+			targets: { a: { friend: 1 } },
+			profiles: { p: { targets: ["missing"] } }
+		});
+		expect(errorOf(path, "q")).toEndWith(
+			'Unknown profile "q" (available: p)'
+		);
+		expect(errorOf(path, "p")).toEndWith(
+			'"profiles.p.targets" refers to unknown target "missing"'
+		);
+	});
+
+	test("prefixes errors with the file", () => {
+		const path = writeConfig("{ not json");
+		expect(errorOf(path)).toStartWith(`Invalid config ${path}: `);
+		expect(() => loadConfigFile(join(dir, "missing.json"))).toThrow(
+			"Config file not found"
+		);
+	});
+});
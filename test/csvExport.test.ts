@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { disableCookies } from "../src/cookiePool";
+import { exportRunCsv } from "../src/csvExport";
+import { loadRun, type LoadedRun } from "../src/runFiles";
+import { installFakeApi, runScan, tempDir, type FakeApi } from "./fakeApi";
+
+/** Split CSV text into rows of fields, honouring quoted fields. */
+function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]!;
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\r" && text[i + 1] === "\n") {
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+			i++;
+		} else {
+			field += char;
+		}
+	}
+	return rows;
+}
+
+function readCsv(path: string): Record<string, string>[] {
+	const [header, ...rows] = parseCsv(readFileSync(path, "utf8"));
+	return rows.map((row) =>
+		Object.fromEntries(header!.map((column, i) => [column, row[i]!]))
+	);
+}
+
+const dir = tempDir();
+let api: FakeApi;
+let run: LoadedRun;
+
+beforeAll(async () => {
+	disableCookies();
+	api = installFakeApi();
+	api.names.set(700_001, { name: "comma,name", displayName: 'Say "hi"' });
+	api.names.set(700_002, {
+		name: "formula_user",
+		displayName: '=HYPERLINK("http://x")'
+	});
+	api.statuses.set(700_001, {
+		flagType: 2,
+		confidence: 0.9,
+		reasons: {
+			"Profile, bio": {
+				message: 'Bio says "add me"\non two lines',
+				confidence: 0.8,
+				evidence: ["-1 trust", "plain"]
+			}
+		}
+	});
+	api.statuses.set(700_002, { flagType: 5, confidence: 0.5 });
+
+	const listPath = join(dir, "users.txt");
+	writeFileSync(listPath, "700001\n700002\n700003\n");
+	const { result } = await runScan({
+		outputDir: dir,
+		runId: "csv",
+		targets: { lists: [{ name: "users", path: listPath }] }
+	});
+	run = loadRun(result.runDir);
+});
+afterAll(() => {
+	api.restore();
+	rmSync(dir, { recursive: true, force: true });
+});
+
+describe("exportRunCsv", () => {
+	test("quotes commas, quotes and line breaks", async () => {
+		const result = await exportRunCsv(run, join(dir, "out"));
+		expect(result.userRows).toBe(2);
+		expect(result.reasonRows).toBe(2);
+
+		const users = readCsv(result.usersFile);
+		expect(users[0]).toMatchObject({
+			userId: "700001",
+			username: "comma,name",
+			displayName: 'Say "hi"',
+			flagLabel: "UNSAFE",
+			reasons: "Profile, bio"
+		});
+
+		const reasons = readCsv(result.reasonsFile);
+		expect(reasons.map((row) => row.message)).toEqual([
+			'Bio says "add me"\non two lines',
+			'Bio says "add me"\non two lines'
+		]);
+		expect(reasons.map((row) => row.evidenceIndex)).toEqual(["0", "1"]);
+	});
+
+	test("keeps spreadsheets from evaluating formulas", async () => {
+		const result = await exportRunCsv(run, join(dir, "out"));
+		const users = readCsv(result.usersFile);
+		expect(users[1]!.displayName).toBe('\'=HYPERLINK("http://x")');
+		const reasons = readCsv(result.reasonsFile);
+		expect(reasons[0]!.evidence).toBe("'-1 trust");
+		expect(reasons[1]!.evidence).toBe("plain");
+	});
+
+	test("leaves safe users out unless asked", async () => {
+		const result = await exportRunCsv(run, join(dir, "all"), {
+			includeSafe: true
+		});
+		expect(result.userRows).toBe(3);
+		const users = readCsv(result.usersFile);
+		expect(users[2]).toMatchObject({
+			userId: "700003",
+			flagLabel: "SAFE",
+			confidence: ""
+		});
+	});
+});
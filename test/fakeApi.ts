@@ -0,0 +1,121 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Roleset } from "../src/groupsScraper";
+import type { UserStatus } from "../src/rotector";
+import {
+	scanTargets,
+	type ScanEvent,
+	type ScanOptions,
+	type ScanResult
+} from "../src/scanner";
+
+export interface FakeGroup {
+	roles: Roleset[];
+	/** Member IDs per role ID, served in pages of the requested limit. */
+	members: Record<number, number[]>;
+}
+
+/**
+ * Stands in for Roblox and Rotector by replacing `fetch`. Users without a
+ * status come back SAFE, and users without a name are called `user<id>`.
+ */
+export interface FakeApi {
+	statuses: Map<number, Omit<UserStatus, "id">>;
+	names: Map<number, { name: string; displayName: string }>;
+	groups: Map<string, FakeGroup>;
+	/** `<METHOD> <url>` of every request, in order. */
+	requests: string[];
+	/** Runs before each request is answered. */
+	onRequest?(url: URL): void;
+	restore(): void;
+}
+
+function namesOf(api: FakeApi, id: number) {
+	return (
+		api.names.get(id) ?? { name: `user${id}`, displayName: `User ${id}` }
+	);
+}
+
+function answer(api: FakeApi, url: URL, body: any): Response {
+	if (url.hostname === "roscoe.rotector.com") {
+		const data: Record<string, UserStatus> = {};
+		for (const id of body.ids as number[]) {
+			data[id] = { id, ...(api.statuses.get(id) ?? { flagType: 0 }) };
+		}
+		return Response.json({ success: true, data });
+	}
+
+	if (url.hostname === "users.roblox.com" && url.pathname === "/v1/users") {
+		return Response.json({
+			data: (body.userIds as number[]).map((id) => ({
+				id,
+				...namesOf(api, id)
+			}))
+		});
+	}
+
+	const group = /^\/v1\/groups\/(\d+)\/roles(?:\/(\d+)\/users)?$/.exec(
+		url.pathname
+	);
+	if (url.hostname === "groups.roblox.com" && group) {
+		const fake = api.groups.get(group[1]!);
+		if (!fake) return new Response("{}", { status: 404 });
+		if (!group[2]) return Response.json({ roles: fake.roles });
+
+		const members = fake.members[Number(group[2])] ?? [];
+		const limit = Number(url.searchParams.get("limit") ?? 100);
+		const offset = Number(url.searchParams.get("cursor") ?? 0);
+		const next = offset + limit;
+		return Response.json({
+			previousPageCursor: null,
+			nextPageCursor: next < members.length ? String(next) : null,
+			data: members.slice(offset, next).map((userId) => ({
+				userId,
+				username: namesOf(api, userId).name,
+				displayName: namesOf(api, userId).displayName,
+				hasVerifiedBadge: false
+			}))
+		});
+	}
+
+	return new Response("{}", { status: 404 });
+}
+
+export function installFakeApi(): FakeApi {
+	const realFetch = globalThis.fetch;
+	const api: FakeApi = {
+		statuses: new Map(),
+		names: new Map(),
+		groups: new Map(),
+		requests: [],
+		restore: () => {
+			globalThis.fetch = realFetch;
+		}
+	};
+	globalThis.fetch = (async (input: string | URL, init?: RequestInit) => {
+		const url = new URL(input.toString());
+		api.requests.push(`${init?.method ?? "GET"} ${url}`);
+		api.onRequest?.(url);
+		const body = init?.body ? JSON.parse(init.body.toString()) : null;
+		return answer(api, url, body);
+	}) as typeof fetch;
+	return api;
+}
+
+export function tempDir(): string {
+	return mkdtempSync(join(tmpdir(), "robloxhell-test-"));
+}
+
+/** Run a scan to the end and return its result and every event. */
+export async function runScan(
+	options: ScanOptions
+): Promise<{ result: ScanResult; events: ScanEvent[] }> {
+	const events: ScanEvent[] = [];
+	const scan = scanTargets(options);
+	for (;;) {
+		const next = await scan.next();
+		if (next.done) return { result: next.value, events };
+		events.push(next.value);
+	}
+}
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { disableCookies } from "../src/cookiePool";
+import type { GroupConfig } from "../src/config";
+import { diffRuns, formatRunDiff } from "../src/runDiff";
+import { loadRun } from "../src/runFiles";
+import { installFakeApi, runScan, tempDir, type FakeApi } from "./fakeApi";
+
+const MEMBER = 881;
+const ADMIN = 882;
+const roles = [
+	{ id: MEMBER, name: "Member", rank: 1, memberCount: 4 },
+	{ id: ADMIN, name: "Admin", rank: 255, memberCount: 1 }
+];
+
+const outputDir = tempDir();
+let api: FakeApi;
+
+async function scanGroup(runId: string, group: Partial<GroupConfig> = {}) {
+	const { result } = await runScan({
+		outputDir,
+		runId,
+		targets: { groups: [{ id: "88", ...group }] }
+	});
+	return loadRun(result.runDir);
+}
+
+beforeAll(() => {
+	disableCookies();
+	api = installFakeApi();
+});
+afterAll(() => {
+	api.restore();
+	rmSync(outputDir, { recursive: true, force: true });
+});
+
+describe("diffRuns", () => {
+	let before: Awaited<ReturnType<typeof scanGroup>>;
+
+	beforeAll(async () => {
+		api.groups.set("88", {
+			roles,
+			members: {
+				[MEMBER]: [600_001, 600_002, 600_003],
+				[ADMIN]: [600_009]
+			}
+		});
+		api.statuses.set(600_002, { flagType: 2, confidence: 0.9 });
+		before = await scanGroup("before");
+	});
+
+	test("reports flag changes and role membership changes", async () => {
+		api.groups.get("88")!.members[MEMBER] = [600_001, 600_002, 600_004];
+		api.statuses.set(600_001, { flagType: 5, confidence: 0.6 });
+		api.statuses.delete(600_002);
+
+		const diff = await diffRuns(before, await scanGroup("after"));
+		const [target] = diff.targets;
+
+		expect(diff.addedTargets).toEqual([]);
+		expect(diff.removedTargets).toEqual([]);
+		expect(target!.newlyFlagged).toEqual([600_001]);
+		expect(target!.unflagged).toEqual([600_002]);
+		expect(target!.flagChanges).toEqual([
+			{
+				userId: 600_001,
+				before: { flagType: 0, flagLabel: "SAFE" },
+				after: { flagType: 5, flagLabel: "MIXED" }
+			},
+			{
+				userId: 600_002,
+				before: { flagType: 2, flagLabel: "UNSAFE" },
+				after: { flagType: 0, flagLabel: "SAFE" }
+			}
+		]);
+		expect(target!.flagBreakdown).toEqual({
+			SAFE: { before: 3, after: 3, delta: 0 },
+			UNSAFE: { before: 1, after: 0, delta: -1 },
+			MIXED: { before: 0, after: 1, delta: 1 }
+		});
+		expect(target!.roles).toEqual([
+			{
+				roleId: MEMBER,
+				roleName: "Member",
+				joined: [600_004],
+				left: [600_003],
+				partial: false
+			}
+		]);
+		expect(target!.skippedRoles).toEqual([]);
+		expect(formatRunDiff(diff)).toContain(
+			"role 881 (Member): +1 joined / -1 left"
+		);
+	});
+
+	test("skips roles only one of the runs scanned", async () => {
+		const adminsOnly = await scanGroup("admins-only", {
+			roles: { include: ["Admin"] }
+		});
+		const [target] = (await diffRuns(before, adminsOnly)).targets;
+
+		expect(target!.roles).toEqual([]);
+		expect(target!.skippedRoles).toEqual([
+			{ roleId: MEMBER, roleName: "Member", scannedIn: "before" }
+		]);
+	});
+
+	test("marks roles cut short by a rolecap as partial", async () => {
+		const capped = await scanGroup("capped", {
+			roles: { roleCaps: { Member: 2 } }
+		});
+		const diff = await diffRuns(before, capped);
+		const [target] = diff.targets;
+
+		expect(target!.roles).toEqual([
+			{
+				roleId: MEMBER,
+				roleName: "Member",
+				joined: [],
+				left: [],
+				partial: true
+			}
+		]);
+		expect(formatRunDiff(diff)).toContain(
+			"role 881 (Member): partial (rolecap reached), membership not compared"
+		);
+	});
+
+	test("lists targets that only one run has", async () => {
+		api.groups.set("89", { roles, members: { [MEMBER]: [600_020] } });
+		const { result } = await runScan({
+			outputDir,
+			runId: "other-group",
+			targets: { groups: [{ id: "89" }] }
+		});
+		const diff = await diffRuns(before, loadRun(result.runDir));
+
+		expect(diff.targets).toEqual([]);
+		expect(diff.addedTargets).toEqual(["group:89"]);
+		expect(diff.removedTargets).toEqual(["group:88"]);
+	});
+});
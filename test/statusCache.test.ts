@@ -0,0 +1,123 @@
+import {
+	afterAll,
+	afterEach,
+	describe,
+	expect,
+	setSystemTime,
+	test
+} from "bun:test";
+import { appendFileSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { openStatusCache } from "../src/statusCache";
+import { tempDir } from "./fakeApi";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+const dir = tempDir();
+let files = 0;
+const newCachePath = () => join(dir, `cache-${++files}`);
+const unixSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+afterEach(() => setSystemTime());
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("openStatusCache", () => {
+	test("ages statuses by Rotector's lastUpdated", () => {
+		setSystemTime(NOW);
+		const cache = openStatusCache(newCachePath(), 7 * DAY_MS);
+		cache.setMany({
+			1: {
+				id: 1,
+				flagType: 2,
+				lastUpdated: unixSeconds(new Date(NOW.getTime() - 6 * DAY_MS))
+			},
+			2: {
+				id: 2,
+				flagType: 0,
+				lastUpdated: unixSeconds(new Date(NOW.getTime() - 8 * DAY_MS))
+			}
+		});
+
+		expect(cache.get(1)?.flagType).toBe(2);
+		expect(cache.get(2)).toBeUndefined();
+		expect(cache.get(3)).toBeUndefined();
+		expect(cache.stats()).toMatchObject({ hits: 1, stale: 1, written: 2 });
+	});
+
+	test("falls back to the time a status was cached", () => {
+		setSystemTime(NOW);
+		const cache = openStatusCache(newCachePath(), 12 * HOUR_MS);
+		cache.setMany({ 4: { id: 4, flagType: 0 } });
+
+		setSystemTime(new Date(NOW.getTime() + 11 * HOUR_MS));
+		expect(cache.get(4)).toEqual({ id: 4, flagType: 0 });
+		setSystemTime(new Date(NOW.getTime() + 13 * HOUR_MS));
+		expect(cache.get(4)).toBeUndefined();
+	});
+
+	test("never reuses results from outdated or deprecated engines", () => {
+		setSystemTime(NOW);
+		const cache = openStatusCache(newCachePath());
+		const lastUpdated = unixSeconds(NOW);
+		cache.setMany({
+			5: {
+				id: 5,
+				flagType: 2,
+				lastUpdated,
+				versionCompatibility: "outdated"
+			},
+			6: {
+				id: 6,
+				flagType: 2,
+				lastUpdated,
+				versionCompatibility: "deprecated"
+			},
+			7: {
+				id: 7,
+				flagType: 2,
+				lastUpdated,
+				versionCompatibility: "current"
+			}
+		});
+
+		expect(cache.get(5)).toBeUndefined();
+		expect(cache.get(6)).toBeUndefined();
+		expect(cache.get(7)?.flagType).toBe(2);
+	});
+
+	test("reloads the newest record per user and skips a torn last line", () => {
+		setSystemTime(NOW);
+		const path = newCachePath();
+		const first = openStatusCache(path);
+		first.setMany({ 8: { id: 8, flagType: 0 } });
+		first.setMany({ 8: { id: 8, flagType: 2 } });
+		appendFileSync(path, '{"cachedAt":1,"status":{"id":9,');
+
+		const reopened = openStatusCache(path);
+		expect(reopened.stats().loaded).toBe(1);
+		expect(reopened.get(8)?.flagType).toBe(2);
+	});
+
+	test("compact keeps only the newest fresh record per user", () => {
+		setSystemTime(NOW);
+		const path = newCachePath();
+		const cache = openStatusCache(path, DAY_MS);
+		cache.setMany({ 10: { id: 10, flagType: 0 } });
+		cache.setMany({ 10: { id: 10, flagType: 5 } });
+		cache.setMany({
+			11: {
+				id: 11,
+				flagType: 2,
+				lastUpdated: unixSeconds(new Date(NOW.getTime() - 2 * DAY_MS))
+			}
+		});
+
+		cache.compact();
+		const lines = readFileSync(path, "utf8").trim().split("\n");
+		expect(lines.map((line) => JSON.parse(line).status)).toEqual([
+			{ id: 10, flagType: 5 }
+		]);
+	});
+});